@@ -27,7 +27,10 @@ async function onInitHooks() {
 	const { createAll } = await import('./src/platform/permissions');
 	const auth = await import('./src/lib/auth');
 	const permissionNames = _.uniq(
-		_.flatMap(auth.ROLES).concat(_.flatMap(auth.KEYS, 'permissions')),
+		_.flatMap(auth.ROLES).concat(
+			_.flatMap(auth.KEYS, 'permissions'),
+			auth.ADMIN_PERMISSIONS,
+		),
 	);
 	return db
 		.transaction(tx =>
@@ -0,0 +1,14 @@
+import * as express from 'express';
+import * as Promise from 'bluebird';
+
+import { expireDeviceApiKeyRotations } from '../lib/device-api-key-rotation';
+
+// Revokes the old device api keys whose rotation grace period is over, meant to
+// be run periodically, eg. from cron
+export function execute(_app: express.Application, _args: string[]) {
+	return Promise.try(() =>
+		expireDeviceApiKeyRotations().then(count => {
+			console.log(`Revoked ${count} expired device api key(s)`);
+		}),
+	);
+}
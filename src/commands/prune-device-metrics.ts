@@ -0,0 +1,14 @@
+import * as express from 'express';
+import * as Promise from 'bluebird';
+
+import { pruneMetrics } from '../lib/device-metrics';
+
+// Deletes the device metrics which are older than the retention, meant to be
+// run periodically, eg. from cron
+export function execute(_app: express.Application, _args: string[]) {
+	return Promise.try(() =>
+		pruneMetrics().then(count => {
+			console.log(`Deleted ${count} expired device metrics point(s)`);
+		}),
+	);
+}
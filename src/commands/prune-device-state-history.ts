@@ -0,0 +1,14 @@
+import * as express from 'express';
+import * as Promise from 'bluebird';
+
+import { pruneStateHistory } from '../lib/device-state-history';
+
+// Deletes the device state reports which are older than the retention, meant to
+// be run periodically, eg. from cron
+export function execute(_app: express.Application, _args: string[]) {
+	return Promise.try(() =>
+		pruneStateHistory().then(count => {
+			console.log(`Deleted ${count} expired device state report(s)`);
+		}),
+	);
+}
@@ -1,21 +1,28 @@
 import { sbvrUtils } from '../platform';
 import { retrieveAPIKey } from '../platform/api-keys';
+import { checkDeviceApiKeyRotation } from '../lib/device-api-key-rotation';
 
 sbvrUtils.addPureHook('all', 'all', 'all', {
 	PREPARSE: ({ req }) => {
 		// Extend Pine's default behavior of calling apiKeyMiddleware()
 		// support api keys on the Authorization header with Bearer scheme
-		return retrieveAPIKey(req);
+		// and check the keys which are being rotated
+		return retrieveAPIKey(req).then(() => checkDeviceApiKeyRotation(req));
 	},
 });
 
 import './resources/api_key';
 import './resources/application';
+import './resources/application_log_redaction_pattern';
+import './resources/application_log_sink';
 import './resources/device';
+import './resources/device_application';
 import './resources/envvars';
 import './resources/image__is_part_of__release';
 import './resources/image';
+import './resources/log_alert_rule';
 import './resources/release';
+import './resources/release_rollout';
 import './resources/service_install';
 import './resources/service_instance';
 import './resources/service';
@@ -3,7 +3,11 @@ import * as Promise from 'bluebird';
 
 import * as deviceTypes from '../../lib/device-types';
 import { postDevices } from '../../lib/device-proxy';
+import { runsApplicationFilter } from '../../lib/device-state';
+import { invalidateDeviceStates } from '../../lib/device-state-cache';
 import { Default as DefaultApplicationType } from '../../lib/application-types';
+import { isValidBackend as isValidLogsBackend } from '../../lib/device-logs/backends';
+import { checkMaintenanceWindow } from '../../lib/maintenance-windows';
 
 import {
 	sbvrUtils,
@@ -38,6 +42,13 @@ const checkDependentApplication: Hooks['POSTPARSE'] = ({ request, api }) => {
 	}
 };
 
+const checkLogsBackend: Hooks['POSTPARSE'] = ({ request }) => {
+	const logsBackend = request.values.logs_backend;
+	if (logsBackend != null && !isValidLogsBackend(logsBackend)) {
+		throw new BadRequestError(`Invalid logs backend: ${logsBackend}`);
+	}
+};
+
 const throwErrorIfCommitChangeIsInvalid = (
 	api: PinejsClient,
 	commit: string,
@@ -101,10 +112,26 @@ sbvrUtils.addPureHook('POST', 'resin', 'application', {
 	},
 });
 
+sbvrUtils.addPureHook('POST', 'resin', 'application', {
+	POSTPARSE: checkLogsBackend,
+});
+
+sbvrUtils.addPureHook('POST', 'resin', 'application', {
+	POSTPARSE: ({ request }) => checkMaintenanceWindow(request.values),
+});
+
 sbvrUtils.addPureHook('PUT', 'resin', 'application', {
 	POSTPARSE: checkDependentApplication,
 });
 
+sbvrUtils.addPureHook('PATCH', 'resin', 'application', {
+	POSTPARSE: checkLogsBackend,
+});
+
+sbvrUtils.addPureHook('PATCH', 'resin', 'application', {
+	POSTPARSE: ({ request }) => checkMaintenanceWindow(request.values),
+});
+
 sbvrUtils.addPureHook('PATCH', 'resin', 'application', {
 	PRERUN: args => {
 		const waitPromises = [checkDependentApplication(args)];
@@ -146,6 +173,41 @@ sbvrUtils.addPureHook('PATCH', 'resin', 'application', {
 	POSTRUN: args => {
 		const { request } = args;
 		const waitPromises = [];
+		if (request.values.commit != null || request.values.app_name != null) {
+			// The gateways of dependent applications include them in their state too
+			waitPromises.push(
+				request.custom.affectedIds.then((ids: number[]) => {
+					if (ids.length === 0) {
+						return;
+					}
+					return invalidateDeviceStates(
+						{
+							$or: [
+								runsApplicationFilter({ $in: ids }),
+								{
+									belongs_to__application: {
+										$any: {
+											$alias: 'a',
+											$expr: {
+												a: {
+													is_depended_on_by__application: {
+														$any: {
+															$alias: 'da',
+															$expr: { da: { id: { $in: ids } } },
+														},
+													},
+												},
+											},
+										},
+									},
+								},
+							],
+						},
+						args.tx,
+					);
+				}),
+			);
+		}
 		if (request.values.commit != null) {
 			// Only update apps if they have had their commit changed.
 			waitPromises.push(
@@ -184,9 +246,13 @@ sbvrUtils.addPureHook('DELETE', 'resin', 'application', {
 
 addDeleteHookForDependents('application', [
 	['device', 'belongs_to__application'],
+	['device_application', 'runs__application'],
 	['application_config_variable', 'application'],
 	['application_environment_variable', 'application'],
+	['application_log_redaction_pattern', 'application'],
+	['application_log_sink', 'application'],
 	['application_tag', 'application'],
+	['log_alert_rule', 'belongs_to__application'],
 	['release', 'belongs_to__application'],
 	['service', 'application'],
 	['application', 'depends_on__application'],
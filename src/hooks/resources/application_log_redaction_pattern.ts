@@ -0,0 +1,39 @@
+import { sbvrUtils } from '../../platform';
+import { toSafeRegExp } from '../../lib/device-logs/filters';
+
+const { BadRequestError } = sbvrUtils;
+
+const redactionPatternHook: sbvrUtils.Hooks = {
+	POSTPARSE: ({ request }) => {
+		const pattern = request.values.log_redaction_pattern;
+		if (pattern == null) {
+			return;
+		}
+		try {
+			toSafeRegExp(pattern);
+		} catch (err) {
+			throw new BadRequestError(
+				`Invalid log redaction pattern: ${err.message}`,
+			);
+		}
+	},
+};
+
+sbvrUtils.addPureHook(
+	'POST',
+	'resin',
+	'application_log_redaction_pattern',
+	redactionPatternHook,
+);
+sbvrUtils.addPureHook(
+	'PUT',
+	'resin',
+	'application_log_redaction_pattern',
+	redactionPatternHook,
+);
+sbvrUtils.addPureHook(
+	'PATCH',
+	'resin',
+	'application_log_redaction_pattern',
+	redactionPatternHook,
+);
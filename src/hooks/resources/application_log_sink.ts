@@ -0,0 +1,19 @@
+import { sbvrUtils } from '../../platform';
+import { isValidSinkUrl } from '../../lib/device-logs/sinks';
+
+const { BadRequestError } = sbvrUtils;
+
+const logSinkHook: sbvrUtils.Hooks = {
+	POSTPARSE: ({ request }) => {
+		const sinkUrl = request.values.log_sink_url;
+		if (sinkUrl != null && !isValidSinkUrl(sinkUrl)) {
+			throw new BadRequestError(
+				`Invalid log sink url, it must be a syslog, syslog+udp, syslog+tcp, syslog+tls, http or https url with a public host: ${sinkUrl}`,
+			);
+		}
+	},
+};
+
+sbvrUtils.addPureHook('POST', 'resin', 'application_log_sink', logSinkHook);
+sbvrUtils.addPureHook('PUT', 'resin', 'application_log_sink', logSinkHook);
+sbvrUtils.addPureHook('PATCH', 'resin', 'application_log_sink', logSinkHook);
@@ -10,6 +10,16 @@ import {
 import * as deviceTypes from '../../lib/device-types';
 import * as haikuName from '../../lib/haiku-name';
 import { postDevices } from '../../lib/device-proxy';
+import { invalidateDeviceStates } from '../../lib/device-state-cache';
+import { evaluateDeviceRollouts } from '../../lib/release-rollouts';
+import { METRIC_FIELDS, recordMetrics } from '../../lib/device-metrics';
+import {
+	HISTORY_FIELDS,
+	recordStateChanges,
+} from '../../lib/device-state-history';
+import { isValidBackend as isValidLogsBackend } from '../../lib/device-logs/backends';
+import { checkMaintenanceWindow } from '../../lib/maintenance-windows';
+import { claimPreRegisteredDevices } from '../../lib/device-pre-registrations';
 
 import {
 	sbvrUtils,
@@ -26,6 +36,18 @@ import { PinejsClientCoreFactory } from 'pinejs-client-core';
 
 const INVALID_NEWLINE_REGEX = /\r|\n/;
 
+// The device fields which the target state of the device, or of its gateway, is built from
+const STATE_FIELDS = [
+	'belongs_to__application',
+	'device_name',
+	'is_managed_by__device',
+	'os_version',
+	'should_be_running__release',
+];
+
+// The device fields which tell how the device is getting on with its release
+const PROGRESS_FIELDS = ['is_on__commit', 'status'];
+
 export const isDeviceNameValid = (name: string) => {
 	return !INVALID_NEWLINE_REGEX.test(name);
 };
@@ -138,6 +160,15 @@ sbvrUtils.addPureHook('POST', 'resin', 'device', {
 				'Device name cannot contain any newline characters.',
 			);
 		}
+		if (
+			request.values.logs_backend != null &&
+			!isValidLogsBackend(request.values.logs_backend)
+		) {
+			throw new BadRequestError(
+				`Invalid logs backend: ${request.values.logs_backend}`,
+			);
+		}
+		checkMaintenanceWindow(request.values);
 		// Keep the app ID for later -- we'll need it in the POSTRUN hook
 		request.custom.appId = request.values.belongs_to__application;
 
@@ -186,6 +217,15 @@ sbvrUtils.addPureHook('PATCH', 'resin', 'device', {
 				'Device name cannot contain any newline characters.',
 			);
 		}
+		if (
+			request.values.logs_backend != null &&
+			!isValidLogsBackend(request.values.logs_backend)
+		) {
+			throw new BadRequestError(
+				`Invalid logs backend: ${request.values.logs_backend}`,
+			);
+		}
+		checkMaintenanceWindow(request.values);
 		// Parse and set `os_variant` from `os_version` if not explicitly given
 		if (
 			request.values.os_version != null &&
@@ -226,12 +266,39 @@ sbvrUtils.addPureHook('PATCH', 'resin', 'device', {
 			request.values.should_be_running__release !== undefined ||
 			[false, 0].includes(request.values.is_online) ||
 			request.values.belongs_to__application != null ||
-			request.values.device_name != null
+			request.values.device_name != null ||
+			STATE_FIELDS.some(field => request.values[field] !== undefined) ||
+			PROGRESS_FIELDS.some(field => request.values[field] !== undefined) ||
+			METRIC_FIELDS.some(field => request.values[field] != null) ||
+			request.values.supervisor_version != null
 		) {
 			// Cache affected ids for later
 			waitPromises.push(getCurrentRequestAffectedIds(args));
 		}
 
+		// Keep the devices as they were, so that only what changes gets recorded
+		const historyFields = HISTORY_FIELDS.filter(
+			field => request.values[field] !== undefined,
+		);
+		if (historyFields.length > 0) {
+			request.custom.previousStates = getCurrentRequestAffectedIds(args).then(
+				deviceIds => {
+					if (deviceIds.length === 0) {
+						return [];
+					}
+					return api.get({
+						resource: 'device',
+						passthrough: { req: root, tx: args.tx },
+						options: {
+							$select: ['id', ...historyFields],
+							$filter: { id: { $in: deviceIds } },
+						},
+					});
+				},
+			);
+			waitPromises.push(request.custom.previousStates);
+		}
+
 		if (request.values.belongs_to__application != null) {
 			waitPromises.push(
 				api
@@ -381,6 +448,81 @@ sbvrUtils.addPureHook('PATCH', 'resin', 'device', {
 			);
 		}
 
+		if (STATE_FIELDS.some(field => args.request.values[field] !== undefined)) {
+			waitPromises.push(
+				affectedIds.then(deviceIds => {
+					if (deviceIds.length === 0) {
+						return;
+					}
+					// Also invalidate the gateways that now manage the devices
+					return invalidateDeviceStates(
+						{
+							$or: [
+								{ id: { $in: deviceIds } },
+								{
+									manages__device: {
+										$any: {
+											$alias: 'd',
+											$expr: { d: { id: { $in: deviceIds } } },
+										},
+									},
+								},
+							],
+						},
+						args.tx,
+					);
+				}),
+			);
+		}
+
+		const previousStates: Promise<AnyObject[]> | undefined =
+			args.request.custom.previousStates;
+		if (previousStates != null) {
+			waitPromises.push(
+				previousStates.then(devices =>
+					recordStateChanges(args.tx, devices, args.request.values),
+				),
+			);
+		}
+
+		if (METRIC_FIELDS.some(field => args.request.values[field] != null)) {
+			waitPromises.push(
+				affectedIds.then(deviceIds =>
+					recordMetrics(args.tx, deviceIds, args.request.values),
+				),
+			);
+		}
+
+		// Only the supervisor reports its version, which claims the devices that
+		// were pre-registered with an api key
+		if (args.request.values.supervisor_version != null) {
+			waitPromises.push(
+				affectedIds.then(deviceIds => {
+					if (deviceIds.length === 0) {
+						return;
+					}
+					const rootApi = args.api.clone({
+						passthrough: { tx: args.tx, req: root },
+					});
+					return claimPreRegisteredDevices(rootApi, deviceIds);
+				}),
+			);
+		}
+
+		// The release rollouts the devices are part of may be ready to move along
+		if (
+			PROGRESS_FIELDS.some(field => args.request.values[field] !== undefined)
+		) {
+			waitPromises.push(
+				affectedIds.then(deviceIds => {
+					if (deviceIds.length === 0) {
+						return;
+					}
+					evaluateDeviceRollouts(args.tx, deviceIds);
+				}),
+			);
+		}
+
 		// We only want to set dependent devices offline when the gateway goes
 		// offline, when the gateway comes back it's its job to set the dependent
 		// device back to online as need be.
@@ -500,10 +642,12 @@ sbvrUtils.addPureHook('PATCH', 'resin', 'device', {
 });
 
 addDeleteHookForDependents('device', [
+	['device_application', 'device'],
 	['device_config_variable', 'device'],
 	['device_environment_variable', 'device'],
 	['device_tag', 'device'],
 	['image_install', 'device'],
 	['service_install', 'device'],
 	['gateway_download', 'is_downloaded_by__device'],
+	['log_alert', 'is_raised_for__device'],
 ]);
@@ -0,0 +1,54 @@
+import { sbvrUtils, getCurrentRequestAffectedIds } from '../../platform';
+import { invalidateDeviceStates } from '../../lib/device-state-cache';
+
+// The applications a device runs make up its target state, so the devices
+// are looked up before the applications they run are changed or removed
+const deviceApplicationHook: sbvrUtils.Hooks = {
+	PRERUN: args => {
+		const { device } = args.request.values;
+		if (device != null) {
+			return invalidateDeviceStates({ id: device }, args.tx);
+		}
+		return getCurrentRequestAffectedIds(args).then(ids => {
+			if (ids.length === 0) {
+				return;
+			}
+			return invalidateDeviceStates(
+				{
+					device_application: {
+						$any: {
+							$alias: 'da',
+							$expr: { da: { id: { $in: ids } } },
+						},
+					},
+				},
+				args.tx,
+			);
+		});
+	},
+};
+
+sbvrUtils.addPureHook(
+	'POST',
+	'resin',
+	'device_application',
+	deviceApplicationHook,
+);
+sbvrUtils.addPureHook(
+	'PATCH',
+	'resin',
+	'device_application',
+	deviceApplicationHook,
+);
+sbvrUtils.addPureHook(
+	'PUT',
+	'resin',
+	'device_application',
+	deviceApplicationHook,
+);
+sbvrUtils.addPureHook(
+	'DELETE',
+	'resin',
+	'device_application',
+	deviceApplicationHook,
+);
@@ -6,6 +6,8 @@ import {
 	checkEnvVarValueValidity,
 } from '../../lib/env-vars';
 import { postDevices } from '../../lib/device-proxy';
+import { runsApplicationFilter } from '../../lib/device-state';
+import { invalidateDeviceStates } from '../../lib/device-state-cache';
 import { PinejsClientCoreFactory } from 'pinejs-client-core';
 import * as Promise from 'bluebird';
 import { captureException } from '../../platform/errors';
@@ -34,6 +36,54 @@ const triggerDevices = (
 	});
 };
 
+// The devices running the applications matching the filter, along with the
+// gateways of the applications which they depend on, as the target state of a
+// gateway includes the variables of its dependent applications
+const affectedByApplicationFilter = (
+	applicationFilter: number | AnyObject,
+): PinejsClientCoreFactory.Filter => ({
+	$or: [
+		runsApplicationFilter(applicationFilter),
+		{
+			belongs_to__application: {
+				$any: {
+					$alias: 'pa',
+					$expr: {
+						pa: {
+							is_depended_on_by__application: _.isObject(applicationFilter)
+								? applicationFilter
+								: {
+										$any: {
+											$alias: 'da',
+											$expr: { da: { id: applicationFilter } },
+										},
+								  },
+						},
+					},
+				},
+			},
+		},
+	],
+});
+
+// The devices matching the filter, along with the gateways managing them, as
+// the target state of a gateway includes the variables of its dependent devices
+const affectedByDeviceFilter = (
+	deviceFilter: AnyObject,
+): PinejsClientCoreFactory.Filter => ({
+	$or: [
+		deviceFilter,
+		{
+			manages__device: {
+				$any: {
+					$alias: 'md',
+					$expr: { md: deviceFilter },
+				},
+			},
+		},
+	],
+});
+
 // Env vars hooks
 const addEnvHooks = (
 	resource: string,
@@ -74,14 +124,17 @@ const addEnvHooks = (
 	const envVarHook: sbvrUtils.Hooks = {
 		POSTPARSE: postParseHook,
 		PRERUN: preRunHook,
-		POSTRUN: ({ req, request }) => {
+		POSTRUN: ({ req, request, tx }) => {
 			const { devices } = request.custom;
 			if (!devices || devices.length === 0) {
 				// If we have no devices affected then no point triggering an update.
 				return;
 			}
 			const filter = { id: { $in: devices } };
-			return triggerDevices(filter, req);
+			return Promise.all([
+				invalidateDeviceStates(filter, tx),
+				triggerDevices(filter, req),
+			]);
 		},
 	};
 
@@ -119,28 +172,26 @@ addEnvHooks(
 	) => {
 		if (args.req.body.application != null) {
 			// If we have an application passed in the body (ie POST) then we can use that to find the devices to update.
-			return Promise.resolve({
-				belongs_to__application: args.req.body.application,
-			});
+			return Promise.resolve(
+				affectedByApplicationFilter(args.req.body.application),
+			);
 		}
 
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
-			return {
-				belongs_to__application: {
-					$any: {
-						$alias: 'a',
-						$expr: {
-							a: {
-								application_config_variable: {
-									$any: {
-										$alias: 'e',
-										$expr: {
-											e: {
-												id: { $in: envVarIds },
-											},
+			return affectedByApplicationFilter({
+				$any: {
+					$alias: 'a',
+					$expr: {
+						a: {
+							application_config_variable: {
+								$any: {
+									$alias: 'e',
+									$expr: {
+										e: {
+											id: { $in: envVarIds },
 										},
 									},
 								},
@@ -148,7 +199,7 @@ addEnvHooks(
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
@@ -163,32 +214,30 @@ addEnvHooks(
 	) => {
 		if (args.req.body.application != null) {
 			// If we have an application passed in the body (ie POST) then we can use that to find the devices to update.
-			return Promise.resolve({
-				belongs_to__application: args.req.body.application,
-			});
+			return Promise.resolve(
+				affectedByApplicationFilter(args.req.body.application),
+			);
 		}
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
 
-			return {
-				belongs_to__application: {
-					$any: {
-						$alias: 'a',
-						$expr: {
-							a: {
-								application_environment_variable: {
-									$any: {
-										$alias: 'e',
-										$expr: { e: { id: { $in: envVarIds } } },
-									},
+			return affectedByApplicationFilter({
+				$any: {
+					$alias: 'a',
+					$expr: {
+						a: {
+							application_environment_variable: {
+								$any: {
+									$alias: 'e',
+									$expr: { e: { id: { $in: envVarIds } } },
 								},
 							},
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
@@ -203,14 +252,16 @@ addEnvHooks(
 	) => {
 		if (args.req.body.device != null) {
 			// If we have a device passed in the body (ie POST) then we can use that as ID filter.
-			return Promise.resolve({ id: args.req.body.device });
+			return Promise.resolve(
+				affectedByDeviceFilter({ id: args.req.body.device }),
+			);
 		}
 
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
-			return {
+			return affectedByDeviceFilter({
 				device_config_variable: {
 					$any: {
 						$alias: 'e',
@@ -219,7 +270,7 @@ addEnvHooks(
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
@@ -234,14 +285,16 @@ addEnvHooks(
 	) => {
 		if (args.req.body.device != null) {
 			// If we have a device passed in the body (ie POST) then we can use that as ID filter.
-			return Promise.resolve({ id: args.req.body.device });
+			return Promise.resolve(
+				affectedByDeviceFilter({ id: args.req.body.device }),
+			);
 		}
 
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
-			return {
+			return affectedByDeviceFilter({
 				device_environment_variable: {
 					$any: {
 						$alias: 'e',
@@ -250,7 +303,7 @@ addEnvHooks(
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
@@ -264,30 +317,32 @@ addEnvHooks(
 		},
 	) => {
 		if (args.req.body.service != null) {
-			return Promise.resolve({
-				service_install: {
-					$any: {
-						$alias: 'si',
-						$expr: {
-							si: {
-								service: {
-									$any: {
-										$alias: 's',
-										$expr: { s: { id: args.req.body.service } },
+			return Promise.resolve(
+				affectedByDeviceFilter({
+					service_install: {
+						$any: {
+							$alias: 'si',
+							$expr: {
+								si: {
+									service: {
+										$any: {
+											$alias: 's',
+											$expr: { s: { id: args.req.body.service } },
+										},
 									},
 								},
 							},
 						},
 					},
-				},
-			});
+				}),
+			);
 		}
 
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
-			return {
+			return affectedByDeviceFilter({
 				service_install: {
 					$any: {
 						$alias: 'si',
@@ -314,7 +369,7 @@ addEnvHooks(
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
@@ -328,21 +383,23 @@ addEnvHooks(
 		},
 	) => {
 		if (args.req.body.service_install != null) {
-			return Promise.resolve({
-				service_install: {
-					$any: {
-						$alias: 's',
-						$expr: { s: { id: args.req.body.service_install } },
+			return Promise.resolve(
+				affectedByDeviceFilter({
+					service_install: {
+						$any: {
+							$alias: 's',
+							$expr: { s: { id: args.req.body.service_install } },
+						},
 					},
-				},
-			});
+				}),
+			);
 		}
 
 		return getCurrentRequestAffectedIds(args).then(envVarIds => {
 			if (envVarIds.length === 0) {
 				return;
 			}
-			return {
+			return affectedByDeviceFilter({
 				service_install: {
 					$any: {
 						$alias: 's',
@@ -358,7 +415,7 @@ addEnvHooks(
 						},
 					},
 				},
-			};
+			});
 		});
 	},
 );
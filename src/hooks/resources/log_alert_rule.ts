@@ -0,0 +1,26 @@
+import { addDeleteHookForDependents, sbvrUtils } from '../../platform';
+import { toSafeRegExp } from '../../lib/device-logs/filters';
+
+const { BadRequestError } = sbvrUtils;
+
+const alertRuleHook: sbvrUtils.Hooks = {
+	POSTPARSE: ({ request }) => {
+		const pattern = request.values.message_pattern;
+		if (pattern == null) {
+			return;
+		}
+		try {
+			toSafeRegExp(pattern);
+		} catch (err) {
+			throw new BadRequestError(`Invalid message pattern: ${err.message}`);
+		}
+	},
+};
+
+sbvrUtils.addPureHook('POST', 'resin', 'log_alert_rule', alertRuleHook);
+sbvrUtils.addPureHook('PUT', 'resin', 'log_alert_rule', alertRuleHook);
+sbvrUtils.addPureHook('PATCH', 'resin', 'log_alert_rule', alertRuleHook);
+
+addDeleteHookForDependents('log_alert_rule', [
+	['log_alert', 'is_raised_by__log_alert_rule'],
+]);
@@ -1,11 +1,33 @@
 import * as Promise from 'bluebird';
 import * as _ from 'lodash';
-import { sbvrUtils, addDeleteHookForDependents } from '../../platform';
+import { sbvrUtils, root, addDeleteHookForDependents } from '../../platform';
 import { HookArgs } from '@resin/pinejs/out/sbvr-api/sbvr-utils';
+import { getRollouts, runRollout } from '../../lib/release-rollouts';
 
-const updateLatestRelease = (id: number, { request, api }: HookArgs) => {
+// Releases with a rollout are only moved to by the rollout, one stage at a time
+const startRollout = (id: number, { api, tx }: HookArgs): Promise<boolean> => {
+	const rootApi = api.clone({ passthrough: { tx, req: root } });
+	return getRollouts(rootApi, { rolls_out__release: id }).then(rollouts => {
+		if (rollouts.length === 0) {
+			return Promise.resolve(false);
+		}
+		return Promise.each(
+			rollouts.filter(rollout => rollout.status === 'pending'),
+			rollout => runRollout(rootApi, rollout),
+		).return(true);
+	});
+};
+
+const updateLatestRelease = (id: number, args: HookArgs) => {
+	const { request, api } = args;
 	// We only track builds that are successful
-	if (request.values.status === 'success') {
+	if (request.values.status !== 'success') {
+		return;
+	}
+	return startRollout(id, args).then(hasRollout => {
+		if (hasRollout) {
+			return;
+		}
 		return api
 			.get({
 				resource: 'release',
@@ -109,7 +131,7 @@ const updateLatestRelease = (id: number, { request, api }: HookArgs) => {
 							.return();
 					});
 			});
-	}
+	});
 };
 
 sbvrUtils.addPureHook('PATCH', 'resin', 'release', {
@@ -149,4 +171,5 @@ addDeleteHookForDependents('release', [
 	['release_tag', 'release'],
 	['image__is_part_of__release', 'is_part_of__release'],
 	['image_install', 'is_provided_by__release'],
+	['release_rollout', 'rolls_out__release'],
 ]);
@@ -0,0 +1,81 @@
+import * as Promise from 'bluebird';
+import { sbvrUtils, root, getCurrentRequestAffectedIds } from '../../platform';
+import {
+	getRollouts,
+	runRollout,
+	ROLLOUT_STATUSES,
+} from '../../lib/release-rollouts';
+
+const { BadRequestError } = sbvrUtils;
+
+const DEFAULT_SUCCESS_THRESHOLD = 90;
+const DEFAULT_FAILURE_THRESHOLD = 10;
+
+const validateRollout = (values: AnyObject) => {
+	if (values.status != null && !ROLLOUT_STATUSES.includes(values.status)) {
+		throw new BadRequestError(`Invalid rollout status: ${values.status}`);
+	}
+	if (values.target_tag_value != null && values.target_tag_key == null) {
+		throw new BadRequestError(
+			'A target tag value requires a target tag key as well',
+		);
+	}
+};
+
+// Setting a rollout back to running resumes it, whereas the API moves the
+// stages along itself
+const isResumed = (values: AnyObject) =>
+	values.status === 'running' && values.current_stage === undefined;
+
+sbvrUtils.addPureHook('POST', 'resin', 'release_rollout', {
+	POSTPARSE: ({ request }) => {
+		const { values } = request;
+		validateRollout(values);
+		// The stages are only moved along by the API
+		values.current_stage = 0;
+		values.status = 'pending';
+		if (values.success_threshold == null) {
+			values.success_threshold = DEFAULT_SUCCESS_THRESHOLD;
+		}
+		if (values.failure_threshold == null) {
+			values.failure_threshold = DEFAULT_FAILURE_THRESHOLD;
+		}
+	},
+	POSTRUN: ({ api, tx, result: rolloutId }) => {
+		if (rolloutId == null) {
+			return;
+		}
+		const rootApi = api.clone({ passthrough: { tx, req: root } });
+		// Start straight away if the release is already successful
+		return getRollouts(rootApi, { id: rolloutId }).each(rollout =>
+			runRollout(rootApi, rollout),
+		);
+	},
+});
+
+sbvrUtils.addPureHook('PATCH', 'resin', 'release_rollout', {
+	POSTPARSE: ({ request }) => {
+		validateRollout(request.values);
+	},
+	PRERUN: args => {
+		if (isResumed(args.request.values)) {
+			return getCurrentRequestAffectedIds(args);
+		}
+	},
+	POSTRUN: ({ api, tx, request }) => {
+		if (!isResumed(request.values)) {
+			return;
+		}
+		const rootApi = api.clone({ passthrough: { tx, req: root } });
+		return (request.custom.affectedIds as Promise<number[]>).then(
+			rolloutIds => {
+				if (rolloutIds.length === 0) {
+					return;
+				}
+				return getRollouts(rootApi, { id: { $in: rolloutIds } })
+					.each(rollout => runRollout(rootApi, rollout))
+					.return();
+			},
+		);
+	},
+});
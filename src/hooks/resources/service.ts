@@ -1,8 +1,67 @@
-import { addDeleteHookForDependents } from '../../platform';
+import {
+	sbvrUtils,
+	addDeleteHookForDependents,
+	getCurrentRequestAffectedIds,
+} from '../../platform';
+import { invalidateDeviceStates } from '../../lib/device-state-cache';
 
 addDeleteHookForDependents('service', [
 	['service_environment_variable', 'service'],
 	['service_install', 'installs__service'],
 	['image', 'is_a_build_of__service'],
 	['service_label', 'service'],
+	['log_alert_rule', 'applies_to__service'],
 ]);
+
+const getServiceDevicesFilter = (serviceFilter: AnyObject) => ({
+	service_install: {
+		$any: {
+			$alias: 'si',
+			$expr: {
+				si: {
+					service: {
+						$any: {
+							$alias: 's',
+							$expr: { s: serviceFilter },
+						},
+					},
+				},
+			},
+		},
+	},
+});
+
+// The labels of the services are part of the target state of the devices,
+// which are looked up before the labels are changed or deleted
+const serviceLabelHook: sbvrUtils.Hooks = {
+	PRERUN: args => {
+		const { service } = args.request.values;
+		if (service != null) {
+			return invalidateDeviceStates(
+				getServiceDevicesFilter({ id: service }),
+				args.tx,
+			);
+		}
+		return getCurrentRequestAffectedIds(args).then(labelIds => {
+			if (labelIds.length === 0) {
+				return;
+			}
+			return invalidateDeviceStates(
+				getServiceDevicesFilter({
+					service_label: {
+						$any: {
+							$alias: 'l',
+							$expr: { l: { id: { $in: labelIds } } },
+						},
+					},
+				}),
+				args.tx,
+			);
+		});
+	},
+};
+
+sbvrUtils.addPureHook('POST', 'resin', 'service_label', serviceLabelHook);
+sbvrUtils.addPureHook('PATCH', 'resin', 'service_label', serviceLabelHook);
+sbvrUtils.addPureHook('PUT', 'resin', 'service_label', serviceLabelHook);
+sbvrUtils.addPureHook('DELETE', 'resin', 'service_label', serviceLabelHook);
@@ -29,6 +29,7 @@ import {
 } from './lib/config';
 
 import * as _applicationRoutes from './routes/applications';
+import { handleWebSocketUpgrades } from './lib/device-logs/transports';
 
 export const AUTH_PATH = '/auth';
 
@@ -105,6 +106,10 @@ export function setup(app: _express.Application, options: SetupOptions) {
 			'Access-Control-Allow-Headers',
 			'Content-Type, Authorization, Application-Record-Count, MaxDataServiceVersion, X-Requested-With',
 		);
+		res.header(
+			'Access-Control-Expose-Headers',
+			'X-Logs-Cursor, X-State-History-Cursor',
+		);
 		res.header('Access-Control-Allow-Credentials', 'true');
 		res.header('Access-Control-Max-Age', '86400');
 		next();
@@ -179,6 +184,7 @@ function startServer(
 	let server: Server;
 	return Promise.fromCallback(cb => {
 		server = app.listen(port, cb);
+		handleWebSocketUpgrades(app, server);
 	}).then(() => {
 		console.log(`Server listening in ${app.get('env')} mode on port ${port}`);
 		return server;
@@ -23,6 +23,7 @@ export const ROLES: {
 		`resin.application.read?${ownsDevice} or depends_on__application/any(a:a/${ownsDevice})`,
 		`resin.device_config_variable.get?device/any(d:d/${matchesActor} or d/belongs_to__application/any(a:a/depends_on__application/any(da:da/${ownsDevice})))`,
 		`resin.device_config_variable.set?device/any(d:d/${matchesActor})`,
+		`resin.device_application.get?device/any(d:d/${matchesActor})`,
 		`resin.device_tag.get?device/any(d:d/${matchesActor})`,
 		`resin.device_tag.set?device/any(d:d/${matchesActor})`,
 		`resin.application_config_variable.get?${applicationControlsDevice}`,
@@ -79,10 +80,13 @@ export const ROLES: {
 		'resin.application.all',
 		'resin.application_config_variable.all',
 		'resin.application_environment_variable.all',
+		'resin.application_log_redaction_pattern.all',
+		'resin.application_log_sink.all',
 		'resin.application_tag.all',
 		'resin.application_type.all',
 		'resin.device.all',
 		`resin.device.tunnel-22222`,
+		'resin.device_application.all',
 		'resin.device_config_variable.all',
 		'resin.device_environment_variable.all',
 		'resin.device_tag.all',
@@ -93,7 +97,10 @@ export const ROLES: {
 		'resin.image_environment_variable.all',
 		'resin.image_install.all',
 		'resin.image_label.all',
+		'resin.log_alert.all',
+		'resin.log_alert_rule.all',
 		'resin.release.all',
+		'resin.release_rollout.all',
 		'resin.release_tag.all',
 		'resin.service.all',
 		'resin.service_environment_variable.all',
@@ -118,6 +125,10 @@ ROLES['default-user'] = [
 	...DEFAULT_USER_EXTRA_PERMISSIONS,
 ];
 
+// Permissions which no role grants, for the operators of the instance to be
+// given directly
+export const ADMIN_PERMISSIONS = ['admin.device_logs_metrics'];
+
 export const KEYS: {
 	[keyName: string]: {
 		key?: string;
@@ -65,6 +65,14 @@ export const AUTH_RESINOS_REGISTRY_CODE =
 export const COOKIE_SESSION_SECRET = requiredVar('COOKIE_SESSION_SECRET');
 export const DB_POOL_SIZE = intVar('DB_POOL_SIZE', undefined);
 export const DELTA_HOST = requiredVar('DELTA_HOST');
+export const DEVICE_API_KEY_ROTATION_CACHE_TTL = intVar(
+	'DEVICE_API_KEY_ROTATION_CACHE_TTL',
+	300,
+);
+export const DEVICE_API_KEY_ROTATION_GRACE_PERIOD = intVar(
+	'DEVICE_API_KEY_ROTATION_GRACE_PERIOD',
+	604800,
+);
 export const DEVICE_CONFIG_OPENVPN_CA = requiredVar('DEVICE_CONFIG_OPENVPN_CA');
 export const DEVICE_CONFIG_OPENVPN_CONFIG = openVpnConfig.replace(
 	'remote {{VPN_DETAILS}}',
@@ -72,6 +80,44 @@ export const DEVICE_CONFIG_OPENVPN_CONFIG = openVpnConfig.replace(
 );
 export const DEVICE_CONFIG_SSH_AUTHORIZED_KEYS =
 	process.env.DEVICE_CONFIG_SSH_AUTHORIZED_KEYS || '';
+export const DEVICE_LOGS_APPLICATION_DAILY_BYTES_QUOTA = intVar(
+	'DEVICE_LOGS_APPLICATION_DAILY_BYTES_QUOTA',
+	undefined,
+);
+export const DEVICE_LOGS_APPLICATION_DAILY_LINES_QUOTA = intVar(
+	'DEVICE_LOGS_APPLICATION_DAILY_LINES_QUOTA',
+	undefined,
+);
+export const DEVICE_LOGS_DEFAULT_BACKEND =
+	process.env.DEVICE_LOGS_DEFAULT_BACKEND || 'redis';
+export const DEVICE_LOGS_DEVICE_DAILY_BYTES_QUOTA = intVar(
+	'DEVICE_LOGS_DEVICE_DAILY_BYTES_QUOTA',
+	undefined,
+);
+export const DEVICE_LOGS_DEVICE_DAILY_LINES_QUOTA = intVar(
+	'DEVICE_LOGS_DEVICE_DAILY_LINES_QUOTA',
+	undefined,
+);
+export const DEVICE_LOGS_POSTGRES_RETENTION_LIMIT = intVar(
+	'DEVICE_LOGS_POSTGRES_RETENTION_LIMIT',
+	100000,
+);
+export const DEVICE_METRICS_INTERVAL = intVar('DEVICE_METRICS_INTERVAL', 300);
+export const DEVICE_METRICS_RETENTION_DAYS = intVar(
+	'DEVICE_METRICS_RETENTION_DAYS',
+	7,
+);
+export const DEVICE_PRE_REGISTRATION_EXPIRY_DAYS = intVar(
+	'DEVICE_PRE_REGISTRATION_EXPIRY_DAYS',
+	30,
+);
+export const DEVICE_STATE_CACHE_TTL = intVar('DEVICE_STATE_CACHE_TTL', 3600);
+export const DEVICE_STATE_HISTORY_RETENTION_DAYS = intVar(
+	'DEVICE_STATE_HISTORY_RETENTION_DAYS',
+	30,
+);
+export const DEVICE_STATE_VALIDATION =
+	process.env.DEVICE_STATE_VALIDATION || 'lenient';
 export const EXTERNAL_HTTP_TIMEOUT_MS = intVar(
 	'EXTERNAL_HTTP_TIMEOUT_MS',
 	25000,
@@ -0,0 +1,340 @@
+import * as Promise from 'bluebird';
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import { Request } from 'express';
+
+import { createDeviceApiKey } from './api-keys';
+import {
+	DEVICE_API_KEY_ROTATION_CACHE_TTL,
+	DEVICE_API_KEY_ROTATION_GRACE_PERIOD,
+} from './config';
+import { getRedisClient } from './redis';
+import { authApi, db, resinApi, root, sbvrUtils, Tx } from '../platform';
+import { captureException } from '../platform/errors';
+
+const { BadRequestError, NotFoundError, UnauthorizedError } = sbvrUtils;
+
+// A device rotates its api key in two phases: it is first issued a new key,
+// with both keys staying valid for DEVICE_API_KEY_ROTATION_GRACE_PERIOD seconds,
+// and the old key is revoked as soon as the device authenticates with the new
+// one, or otherwise once the grace period is over
+
+export interface ApiKeyRotation {
+	api_key: string;
+	// When the old key stops being valid, in milliseconds since the epoch
+	expires_at: number;
+}
+
+interface RotationRow {
+	device: number;
+	'old api key': number;
+	'new api key': number;
+	'expires at': string;
+}
+
+// Most api keys are never rotated, so the keys found not to be part of any
+// rotation are remembered for DEVICE_API_KEY_ROTATION_CACHE_TTL seconds, sparing
+// the lookup on every request made with them. A TTL of 0 disables it
+const NOT_ROTATING = '0';
+
+const getRotationCacheKey = (key: string) =>
+	`api-key:${crypto
+		.createHash('sha256')
+		.update(key)
+		.digest('hex')}:rotation`;
+
+const isRotationCacheEnabled = () =>
+	DEVICE_API_KEY_ROTATION_CACHE_TTL > 0 && getRedisClient().connected;
+
+const isKnownNotRotating = (key: string): Promise<boolean> => {
+	if (!isRotationCacheEnabled()) {
+		return Promise.resolve(false);
+	}
+	return Promise.fromCallback<string | null>(callback => {
+		getRedisClient().get(getRotationCacheKey(key), callback);
+	})
+		.then(cached => cached === NOT_ROTATING)
+		.catch(err => {
+			captureException(err, 'Failed to read the cached api key rotation');
+			return false;
+		});
+};
+
+const rememberNotRotating = (key: string) => {
+	if (!isRotationCacheEnabled()) {
+		return;
+	}
+	getRedisClient().set(
+		getRotationCacheKey(key),
+		NOT_ROTATING,
+		'EX',
+		DEVICE_API_KEY_ROTATION_CACHE_TTL,
+		err => {
+			if (err) {
+				captureException(err, 'Failed to cache the api key rotation');
+			}
+		},
+	);
+};
+
+const forgetNotRotating = (key: string) => {
+	if (!getRedisClient().connected) {
+		return;
+	}
+	getRedisClient().del(getRotationCacheKey(key), err => {
+		if (err) {
+			captureException(err, 'Failed to clear the cached api key rotation');
+		}
+	});
+};
+
+const deleteApiKeys = (tx: Tx, apiKeyIds: number[]): Promise<void> => {
+	if (apiKeyIds.length === 0) {
+		return Promise.resolve();
+	}
+	return authApi
+		.delete({
+			resource: 'api_key',
+			passthrough: { tx, req: root },
+			options: {
+				$filter: { id: { $in: apiKeyIds } },
+			},
+		})
+		.return();
+};
+
+// Resolves to the device of the request, along with the api key the request was
+// made with, which has to be one of the device's own
+const getDeviceApiKey = (
+	req: Request,
+	tx: Tx,
+	uuid: string,
+): Promise<{ deviceId: number; apiKeyId: number; key: string }> =>
+	Promise.try(() => {
+		if (req.apiKey == null || req.apiKey.key == null) {
+			throw new UnauthorizedError('Request has no API key');
+		}
+		const { key } = req.apiKey;
+		return resinApi
+			.get({
+				resource: 'device',
+				passthrough: { req, tx },
+				options: {
+					$select: ['id', 'actor'],
+					$filter: { uuid },
+				},
+			})
+			.then(([device]: AnyObject[]) => {
+				if (device == null) {
+					throw new NotFoundError('No device with uuid ' + uuid);
+				}
+				return authApi
+					.get({
+						resource: 'api_key',
+						passthrough: { tx, req: root },
+						options: {
+							$select: 'id',
+							$filter: {
+								key,
+								is_of__actor: device.actor,
+							},
+						},
+					})
+					.then(([apiKey]: AnyObject[]) => {
+						if (apiKey == null) {
+							throw new UnauthorizedError(
+								'Only the device itself can rotate its api key',
+							);
+						}
+						return { deviceId: device.id, apiKeyId: apiKey.id, key };
+					});
+			});
+	});
+
+// Resolves to the pending rotation of the device, locking it until the end of
+// the transaction
+const getRotation = (
+	tx: Tx,
+	deviceId: number,
+): Promise<RotationRow | undefined> =>
+	Promise.resolve(
+		tx.executeSql(
+			`
+SELECT "device", "old api key", "new api key", "expires at"
+FROM "device api key rotation"
+WHERE "device" = $1
+FOR UPDATE`,
+			[deviceId],
+		),
+	).then(({ rows }) => rows[0] as RotationRow | undefined);
+
+// Revokes the old api key of the rotation, which is then over
+const completeRotation = (tx: Tx, rotation: RotationRow): Promise<void> =>
+	deleteApiKeys(tx, [rotation['old api key']]).then(() =>
+		Promise.resolve(
+			tx.executeSql(
+				`
+DELETE FROM "device api key rotation"
+WHERE "device" = $1`,
+				[rotation.device],
+			),
+		).return(),
+	);
+
+// Issues a new api key to the device, keeping the key of the request valid for
+// the grace period. Rotating again with the new key completes the pending
+// rotation first, while rotating again with the old one replaces the new key,
+// as the device may have never received it, without extending the grace period.
+// Any other key of the device can't rotate while a rotation is pending, as the
+// old key of that rotation would otherwise never be revoked
+export const rotateDeviceApiKey = (
+	req: Request,
+	uuid: string,
+): Promise<ApiKeyRotation> =>
+	db.transaction(tx =>
+		getDeviceApiKey(req, tx, uuid).then(({ deviceId, apiKeyId, key }) => {
+			// The key of the request is part of a rotation from now on, so it can't
+			// be remembered as not rotating anymore
+			tx.on('end', () => {
+				forgetNotRotating(key);
+			});
+			return getRotation(tx, deviceId)
+				.then(rotation => {
+					const expiresAt =
+						Date.now() + DEVICE_API_KEY_ROTATION_GRACE_PERIOD * 1000;
+					if (rotation == null) {
+						return expiresAt;
+					}
+					if (rotation['new api key'] === apiKeyId) {
+						return completeRotation(tx, rotation).return(expiresAt);
+					}
+					if (rotation['old api key'] !== apiKeyId) {
+						throw new BadRequestError(
+							'Another api key rotation is pending for the device',
+						);
+					}
+					const rotationExpiresAt = _.toNumber(rotation['expires at']);
+					if (rotationExpiresAt <= Date.now()) {
+						throw new UnauthorizedError('API key has expired');
+					}
+					return deleteApiKeys(tx, [rotation['new api key']]).return(
+						rotationExpiresAt,
+					);
+				})
+				.then(expiresAt =>
+					// The device can't create keys for itself, but the key of the request
+					// has been checked to be its own already
+					createDeviceApiKey(root, deviceId, { tx })
+						.then(apiKey =>
+							authApi
+								.get({
+									resource: 'api_key',
+									passthrough: { tx, req: root },
+									options: {
+										$select: 'id',
+										$filter: { key: apiKey },
+									},
+								})
+								.then(([newApiKey]: AnyObject[]) =>
+									tx.executeSql(
+										`
+INSERT INTO "device api key rotation" ("device", "old api key", "new api key", "expires at")
+VALUES ($1, $2, $3, $4)
+ON CONFLICT ("device") DO UPDATE
+SET "old api key" = EXCLUDED."old api key",
+"new api key" = EXCLUDED."new api key",
+"expires at" = EXCLUDED."expires at"`,
+										[deviceId, apiKeyId, newApiKey.id, expiresAt],
+									),
+								)
+								.return(apiKey),
+						)
+						.then(apiKey => ({ api_key: apiKey, expires_at: expiresAt })),
+				);
+		}),
+	);
+
+// The checks of the requests which were already made, as pine authenticates
+// again every request nested in them
+const checkedRequests = new WeakMap<object, Promise<void>>();
+
+// Checks the api key of the request against the rotation it is part of, if
+// any, rejecting it if it is the old key and its grace period is over, and
+// completing the rotation if it is the new key
+export const checkDeviceApiKeyRotation = (
+	req: sbvrUtils.HookReq | Request,
+): Promise<void> => {
+	if (req.apiKey == null || req.apiKey.key == null) {
+		return Promise.resolve();
+	}
+	let check = checkedRequests.get(req);
+	if (check == null) {
+		check = checkApiKeyRotation(req.apiKey.key);
+		checkedRequests.set(req, check);
+	}
+	return check;
+};
+
+const checkApiKeyRotation = (key: string): Promise<void> =>
+	isKnownNotRotating(key).then(notRotating => {
+		if (notRotating) {
+			return;
+		}
+		return Promise.resolve(
+			db.executeSql(
+				`
+SELECT k."id" AS "api key", r."device", r."old api key", r."expires at"
+FROM "api key" k
+JOIN "device api key rotation" r
+ON k."id" IN (r."old api key", r."new api key")
+WHERE k."key" = $1`,
+				[key],
+			),
+		).then(({ rows }) => {
+			const [rotation] = rows as Array<
+				Pick<RotationRow, 'device' | 'old api key' | 'expires at'> & {
+					'api key': number;
+				}
+			>;
+			if (rotation == null) {
+				rememberNotRotating(key);
+				return;
+			}
+			if (rotation['api key'] === rotation['old api key']) {
+				if (_.toNumber(rotation['expires at']) <= Date.now()) {
+					throw new UnauthorizedError('API key has expired');
+				}
+				return;
+			}
+			return db.transaction(tx =>
+				getRotation(tx, rotation.device).then(pendingRotation => {
+					// The rotation may have been completed by a concurrent request already
+					if (
+						pendingRotation == null ||
+						pendingRotation['new api key'] !== rotation['api key']
+					) {
+						return;
+					}
+					return completeRotation(tx, pendingRotation);
+				}),
+			);
+		});
+	});
+
+// Revokes the old api keys of the rotations whose grace period is over,
+// resolving to how many were revoked
+export const expireDeviceApiKeyRotations = (): Promise<number> =>
+	db.transaction(tx =>
+		Promise.resolve(
+			tx.executeSql(
+				`
+DELETE FROM "device api key rotation"
+WHERE "expires at" <= $1
+RETURNING "old api key"`,
+				[Date.now()],
+			),
+		).then(({ rows }) => {
+			const apiKeyIds: number[] = _.map(rows, 'old api key');
+			return deleteApiKeys(tx, apiKeyIds).return(apiKeyIds.length);
+		}),
+	);
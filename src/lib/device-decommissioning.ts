@@ -0,0 +1,253 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import { Request } from 'express';
+
+import { deleteLogs } from './device-logs/backends';
+import {
+	DeviceTarget,
+	getDeviceTargets,
+	requestDeviceTarget,
+} from './device-proxy';
+import { authApi, db, resinApi, root, sbvrUtils, Tx } from '../platform';
+import { getUser } from '../platform/auth';
+import { captureException } from '../platform/errors';
+
+const { NotFoundError } = sbvrUtils;
+
+// Decommissioning a device revokes its api keys and deletes it in one
+// transaction, leaving a tombstone behind as the audit record of what was done.
+// Once that is committed, its logs are removed and it is asked to purge its
+// data if it is online, recording the outcome of the purge on the tombstone
+
+// Whether the device was asked to purge its data, or why it couldn't be
+export type PurgeStatus = 'pending' | 'requested' | 'offline' | 'failed';
+
+export interface DeviceTombstone {
+	uuid: string;
+	device: number;
+	application: number | null;
+	// In milliseconds since the epoch
+	decommissioned_at: number;
+	decommissioned_by: number | null;
+	reason: string | null;
+	revoked_api_keys: number;
+	purge_status: PurgeStatus;
+}
+
+interface DeviceTombstoneRow {
+	uuid: string;
+	device: number;
+	application: number | null;
+	'decommissioned at': string;
+	'decommissioned by': number | null;
+	reason: string | null;
+	'revoked api keys': number;
+	'purge status': PurgeStatus;
+}
+
+const revokeApiKeys = (tx: Tx, actorId: number): Promise<number> => {
+	const authApiTx = authApi.clone({ passthrough: { tx, req: root } });
+	return authApiTx
+		.get({
+			resource: 'api_key',
+			options: {
+				$select: 'id',
+				$filter: { is_of__actor: actorId },
+			},
+		})
+		.then((apiKeys: AnyObject[]) => {
+			if (apiKeys.length === 0) {
+				return 0;
+			}
+			return authApiTx
+				.delete({
+					resource: 'api_key',
+					options: {
+						$filter: { id: { $in: _.map(apiKeys, 'id') } },
+					},
+				})
+				.return(apiKeys.length);
+		});
+};
+
+const purgeDevice = (
+	target: DeviceTarget | undefined,
+	appId: number | null,
+): Promise<PurgeStatus> => {
+	// Online devices can still be missing a service instance to proxy through,
+	// so they have no target either
+	if (target == null) {
+		return Promise.resolve('offline' as PurgeStatus);
+	}
+	return requestDeviceTarget(target, {
+		url: '/v1/purge',
+		data: { appId },
+		method: 'POST',
+	})
+		.then(
+			([{ statusCode }]): PurgeStatus => {
+				if (statusCode >= 400) {
+					throw new Error(`Purge failed with status ${statusCode}`);
+				}
+				return 'requested';
+			},
+		)
+		.catch(err => {
+			captureException(err, 'Error purging decommissioned device');
+			return 'failed' as PurgeStatus;
+		});
+};
+
+const insertTombstone = (tx: Tx, tombstone: DeviceTombstone): Promise<void> =>
+	Promise.resolve(
+		tx.executeSql(
+			`
+INSERT INTO "device tombstone" ("uuid", "device", "application", "decommissioned at", "decommissioned by", "reason", "revoked api keys", "purge status")
+VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+ON CONFLICT ("uuid") DO UPDATE
+SET "device" = EXCLUDED."device",
+"application" = EXCLUDED."application",
+"decommissioned at" = EXCLUDED."decommissioned at",
+"decommissioned by" = EXCLUDED."decommissioned by",
+"reason" = EXCLUDED."reason",
+"revoked api keys" = EXCLUDED."revoked api keys",
+"purge status" = EXCLUDED."purge status"`,
+			[
+				tombstone.uuid,
+				tombstone.device,
+				tombstone.application,
+				tombstone.decommissioned_at,
+				tombstone.decommissioned_by,
+				tombstone.reason,
+				tombstone.revoked_api_keys,
+				tombstone.purge_status,
+			],
+		),
+	).return();
+
+const updatePurgeStatus = (
+	uuid: string,
+	purgeStatus: PurgeStatus,
+): Promise<void> =>
+	Promise.resolve(
+		db.executeSql(
+			`
+UPDATE "device tombstone"
+SET "purge status" = $1
+WHERE "uuid" = $2`,
+			[purgeStatus, uuid],
+		),
+	).return();
+
+// The target of the device if it is online, which has to be looked up before it
+// is deleted to still be able to reach it afterwards
+const getOnlineDeviceTarget = (
+	device: AnyObject,
+): Promise<DeviceTarget | undefined> => {
+	if (!device.is_connected_to_vpn || device.vpn_address == null) {
+		return Promise.resolve(undefined);
+	}
+	return getDeviceTargets([device.id]).then(_.first);
+};
+
+// Decommissions the device on behalf of the user of the request, who has to be
+// allowed to delete it, resolving to its tombstone while the purge is pending
+export const decommissionDevice = (
+	req: Request,
+	uuid: string,
+	reason?: string,
+): Promise<DeviceTombstone> =>
+	getUser(req).then(user =>
+		db.transaction(tx => {
+			const resinApiTx = resinApi.clone({ passthrough: { req, tx } });
+			return resinApiTx
+				.get({
+					resource: 'device',
+					options: {
+						$select: [
+							'id',
+							'uuid',
+							'actor',
+							'belongs_to__application',
+							'is_connected_to_vpn',
+							'vpn_address',
+						],
+						$filter: { uuid },
+					},
+				})
+				.then(([device]: AnyObject[]) => {
+					if (device == null) {
+						throw new NotFoundError('No device with uuid ' + uuid);
+					}
+					const appId: number | null = _.get(
+						device.belongs_to__application,
+						'__id',
+						null,
+					);
+					return Promise.join(
+						revokeApiKeys(tx, device.actor),
+						getOnlineDeviceTarget(device),
+						(revokedApiKeys, target) =>
+							resinApiTx
+								.delete({
+									resource: 'device',
+									id: device.id,
+								})
+								.then(() => {
+									const tombstone: DeviceTombstone = {
+										uuid,
+										device: device.id,
+										application: appId,
+										decommissioned_at: Date.now(),
+										decommissioned_by: user.id,
+										reason: reason != null ? reason : null,
+										revoked_api_keys: revokedApiKeys,
+										purge_status: 'pending',
+									};
+									tx.on('end', () => {
+										deleteLogs({ id: device.id, uuid, resinApi, req })
+											.then(() => purgeDevice(target, appId))
+											.then(purgeStatus => updatePurgeStatus(uuid, purgeStatus))
+											.catch(err => {
+												captureException(
+													err,
+													'Failed to clean up decommissioned device',
+												);
+											});
+									});
+									return insertTombstone(tx, tombstone).return(tombstone);
+								}),
+					);
+				});
+		}),
+	);
+
+// Resolves to the tombstone of the device, if it has been decommissioned
+export const getTombstone = (
+	uuid: string,
+): Promise<DeviceTombstone | undefined> =>
+	Promise.resolve(
+		db.executeSql(
+			`
+SELECT *
+FROM "device tombstone"
+WHERE "uuid" = $1`,
+			[uuid],
+		),
+	).then(({ rows }) => {
+		const row = rows[0] as DeviceTombstoneRow | undefined;
+		if (row == null) {
+			return;
+		}
+		return {
+			uuid: row.uuid,
+			device: row.device,
+			application: row.application,
+			// BIGINT columns are returned as strings by the driver
+			decommissioned_at: _.toNumber(row['decommissioned at']),
+			decommissioned_by: row['decommissioned by'],
+			reason: row.reason,
+			revoked_api_keys: row['revoked api keys'],
+			purge_status: row['purge status'],
+		};
+	});
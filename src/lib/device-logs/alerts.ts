@@ -0,0 +1,170 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import * as memoizee from 'memoizee';
+import * as uuid from 'node-uuid';
+import { DeviceLog, LogContext } from './struct';
+import { toSafeRegExp } from './filters';
+import { getRedisClient } from '../redis';
+import { captureException } from '../../platform/errors';
+import { resinApi, root } from '../../platform';
+
+// How long changes to the rules of an application take to be picked up
+const RULES_CACHE_EXPIRATION = 60 * 1000;
+
+interface LogAlertRule {
+	id: number;
+	message_pattern: string;
+	applies_to__service: { __id: number } | null;
+	match_threshold: number;
+	// In seconds
+	match_window: number;
+}
+
+interface AlertMatcher {
+	ruleId: number;
+	pattern: RegExp;
+	serviceId?: number;
+	threshold: number;
+	// In milliseconds
+	window: number;
+}
+
+const toMatcher = (rule: LogAlertRule): AlertMatcher | undefined => {
+	let pattern: RegExp;
+	try {
+		pattern = toSafeRegExp(rule.message_pattern);
+	} catch (err) {
+		// Patterns are validated when created, but don't fail the logs if one slips through
+		captureException(err, `Invalid log alert rule pattern: ${rule.id}`);
+		return;
+	}
+	return {
+		ruleId: rule.id,
+		pattern,
+		serviceId:
+			rule.applies_to__service != null
+				? rule.applies_to__service.__id
+				: undefined,
+		threshold: rule.match_threshold,
+		window: rule.match_window * 1000,
+	};
+};
+
+// The rules are looked up with full privileges, as devices cannot read them
+const getAlertMatchers = memoizee(
+	(deviceId: number): Promise<AlertMatcher[]> =>
+		resinApi
+			.get({
+				resource: 'log_alert_rule',
+				passthrough: { req: root },
+				options: {
+					$select: [
+						'id',
+						'message_pattern',
+						'applies_to__service',
+						'match_threshold',
+						'match_window',
+					],
+					$filter: {
+						belongs_to__application: {
+							$any: {
+								$alias: 'a',
+								$expr: {
+									a: {
+										owns__device: {
+											$any: {
+												$alias: 'd',
+												$expr: { d: { id: deviceId } },
+											},
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+			})
+			.then((rules: LogAlertRule[]) => _.compact(rules.map(toMatcher))),
+	{ promise: true, primitive: true, maxAge: RULES_CACHE_EXPIRATION },
+);
+
+const getMatchesKey = (ctx: LogContext, matcher: AlertMatcher) =>
+	`device:${ctx.id}:logs:alert:${matcher.ruleId}`;
+
+// Adds the matches to the sliding window of the rule for the device,
+// resolving to the number of matches within the window
+function countMatches(
+	ctx: LogContext,
+	matcher: AlertMatcher,
+	logs: DeviceLog[],
+): Promise<number> {
+	const client = getRedisClient();
+	const key = getMatchesKey(ctx, matcher);
+	const tx = client.multi();
+	for (const log of logs) {
+		// Members have to be unique, even for logs created at the same time
+		const member = `${log.createdAt}:${uuid.v4()}`;
+		tx.zadd(key, log.createdAt, member);
+	}
+	tx.zremrangebyscore(key, '-inf', Date.now() - matcher.window);
+	tx.zcard(key);
+	tx.pexpire(key, matcher.window);
+	return Promise.fromCallback<any[]>(callback => {
+		tx.exec(callback);
+	}).then(results => results[results.length - 2] as number);
+}
+
+function raiseAlert(
+	ctx: LogContext,
+	matcher: AlertMatcher,
+	matchCount: number,
+	lastLog: DeviceLog,
+): Promise<void> {
+	const client = getRedisClient();
+	// Start counting again, so that every alert is for a new set of matches
+	return Promise.fromCallback(callback => {
+		client.del(getMatchesKey(ctx, matcher), callback);
+	})
+		.then(() =>
+			resinApi.post({
+				resource: 'log_alert',
+				passthrough: { req: root },
+				body: {
+					is_raised_by__log_alert_rule: matcher.ruleId,
+					is_raised_for__device: ctx.id,
+					match_count: matchCount,
+					message: lastLog.message,
+				},
+				options: { returnResource: false },
+			}),
+		)
+		.return();
+}
+
+// Raises an alert for each of the rules of the application of the device that
+// the logs take over its threshold, without waiting for them to be evaluated
+export function evaluateAlertRules(ctx: LogContext, logs: DeviceLog[]): void {
+	// The matches are counted in Redis, so that they add up across instances
+	if (logs.length === 0 || !getRedisClient().connected) {
+		return;
+	}
+	getAlertMatchers(ctx.id)
+		.each(matcher => {
+			const matches = logs.filter(
+				log =>
+					(matcher.serviceId == null || log.serviceId === matcher.serviceId) &&
+					matcher.pattern.test(log.message),
+			);
+			if (matches.length === 0) {
+				return;
+			}
+			return countMatches(ctx, matcher, matches).then(matchCount => {
+				if (matchCount > matcher.threshold) {
+					return raiseAlert(ctx, matcher, matchCount, _.last(matches)!);
+				}
+			});
+		})
+		.catch((err: Error) => {
+			captureException(err, 'Failed to evaluate the log alert rules');
+		});
+}
@@ -0,0 +1,52 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import { DeviceLogsBackend, LogContext } from '../struct';
+import { PostgresBackend } from './postgres';
+import { RedisBackend } from './redis';
+import { getLogSetting } from '../settings';
+import { DEVICE_LOGS_DEFAULT_BACKEND } from '../../config';
+import { sbvrUtils, Tx } from '../../../platform';
+
+const { ServiceUnavailableError } = sbvrUtils;
+
+// Backends are only instantiated on first use, so that we don't open
+// connections for backends that are not in use
+const getRedisBackend = _.once(() => new RedisBackend());
+const getPostgresBackend = _.once(() => new PostgresBackend(getRedisBackend()));
+
+const backends: Dictionary<() => DeviceLogsBackend> = {
+	redis: getRedisBackend,
+	postgres: getPostgresBackend,
+};
+
+export const isValidBackend = (name: string): boolean => _.has(backends, name);
+
+if (!isValidBackend(DEVICE_LOGS_DEFAULT_BACKEND)) {
+	throw new Error(
+		`Invalid DEVICE_LOGS_DEFAULT_BACKEND: ${DEVICE_LOGS_DEFAULT_BACKEND}`,
+	);
+}
+
+// Fall back to the default backend if neither the device nor the application set one
+export const getBackendName = (ctx: LogContext): string =>
+	getLogSetting(ctx, 'logs_backend') || DEVICE_LOGS_DEFAULT_BACKEND;
+
+export function getBackend(ctx: LogContext): DeviceLogsBackend {
+	const name = getBackendName(ctx);
+	if (!isValidBackend(name)) {
+		return backends[DEVICE_LOGS_DEFAULT_BACKEND]();
+	}
+	return backends[name]();
+}
+
+// Removes the logs of the device from every available backend, as it may have
+// used others before its current one. The backends that can't be reached are
+// skipped, but any other failure is passed on, so that it fails the transaction
+export const deleteLogs = (ctx: LogContext, tx?: Tx): Promise<void> =>
+	Promise.each(_.values(backends), getBackendInstance => {
+		const backend = getBackendInstance();
+		if (!backend.available) {
+			return;
+		}
+		return backend.delete(ctx, tx).catch(ServiceUnavailableError, _.noop);
+	}).return();
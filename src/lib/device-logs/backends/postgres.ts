@@ -0,0 +1,347 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import { Readable } from 'stream';
+import {
+	DeviceLog,
+	DeviceLogsBackend,
+	HistoryPage,
+	HistoryQuery,
+	LogContext,
+	LogTimeField,
+	LogWriteContext,
+	Subscription,
+} from '../struct';
+import { RedisBackend } from './redis';
+import { decodeCursor, encodeCursor } from '../cursor';
+import { hasLogFilter } from '../filters';
+import { captureException } from '../../../platform/errors';
+import { db, sbvrUtils, Tx } from '../../../platform';
+import { DEVICE_LOGS_POSTGRES_RETENTION_LIMIT } from '../../config';
+
+const { BadRequestError } = sbvrUtils;
+
+const FIELDS = [
+	'created at',
+	'timestamp',
+	'is system',
+	'is stderr',
+	'service id',
+	'message',
+];
+const SELECT_FIELDS = FIELDS.map(field => `"${field}"`).join(', ');
+const TIME_COLUMNS: { [field in LogTimeField]: string } = {
+	createdAt: 'created at',
+	timestamp: 'timestamp',
+};
+
+const STREAM_BATCH_SIZE = 1000;
+// The logs of a device are pruned at most once per interval, and only so many
+// of them at a time, leaving the rest to the next interval
+const PRUNE_INTERVAL = 60 * 1000;
+const PRUNE_BATCH_SIZE = 10000;
+
+// The regular expressions of Postgres are close to the JS ones, but it still
+// rejects some of the patterns JS accepts
+const PG_INVALID_REGULAR_EXPRESSION = '2201B';
+
+interface DeviceLogRow {
+	// BIGSERIAL
+	id: string;
+	'created at': string | number;
+	timestamp: string | number;
+	'is system': boolean;
+	'is stderr': boolean;
+	'service id': number | null;
+	message: string;
+}
+
+const selectLogs = (sql: string, bindings: any[]): Promise<DeviceLogRow[]> =>
+	Promise.resolve(db.executeSql(sql, bindings))
+		.catch({ code: PG_INVALID_REGULAR_EXPRESSION }, () => {
+			throw new BadRequestError(`Invalid 'messageRegex' parameter`);
+		})
+		.then(({ rows }) => rows as DeviceLogRow[]);
+
+// Stores the logs in the "device log" table so that many more of them can be
+// kept, while the live logs are still relayed through Redis PubSub
+export class PostgresBackend implements DeviceLogsBackend {
+	// The devices whose logs have been pruned since the start of the interval
+	private pruned = new Set<number>();
+	private pruneIntervalEnd = 0;
+
+	constructor(private live: RedisBackend) {}
+
+	public history(ctx: LogContext, query: HistoryQuery): Promise<HistoryPage> {
+		return Promise.try(() => {
+			const bindings: any[] = [];
+			const where = this.getConditions(ctx, query, bindings);
+			if (query.cursor != null) {
+				// Keyset pagination, so that new logs don't shift the pages
+				const { createdAt, id } = decodeCursor(query.cursor);
+				if (!_.isSafeInteger(createdAt) || !/^[0-9]+$/.test(id)) {
+					throw new BadRequestError('Invalid cursor');
+				}
+				bindings.push(createdAt, id);
+				where.push(
+					`("created at", "id") < ($${bindings.length - 1}, $${
+						bindings.length
+					})`,
+				);
+			}
+			let sql = `
+SELECT "id", ${SELECT_FIELDS}
+FROM "device log"
+WHERE ${where.join('\nAND ')}
+ORDER BY "created at" DESC, "id" DESC`;
+			const count = Math.min(query.count, this.getRetentionLimit(ctx));
+			if (_.isFinite(count)) {
+				// Read one more log to know whether there is another page
+				bindings.push(count + 1);
+				sql += `
+LIMIT $${bindings.length}`;
+			}
+			return selectLogs(sql, bindings).then(rows => {
+				const pageRows = rows.slice(0, count);
+				const result: HistoryPage = {
+					// We query the newest logs first, but they have to be returned in order
+					logs: pageRows.map(this.fromRow).reverse(),
+				};
+				if (rows.length > count && count > 0) {
+					const oldest = pageRows[pageRows.length - 1];
+					result.cursor = encodeCursor({
+						createdAt: _.toNumber(oldest['created at']),
+						id: oldest.id,
+					});
+				}
+				return result;
+			});
+		});
+	}
+
+	public historyStream(ctx: LogContext, query: HistoryQuery): Readable {
+		// Use keyset pagination, as the logs can be added while we read them
+		let after: { createdAt: number; id: string } | undefined;
+		let reading = false;
+		const stream = new Readable({
+			objectMode: true,
+			read: () => {
+				if (reading) {
+					return;
+				}
+				reading = true;
+				const bindings: any[] = [];
+				const where = this.getConditions(ctx, query, bindings);
+				if (after != null) {
+					bindings.push(after.createdAt, after.id);
+					where.push(
+						`("created at", "id") > ($${bindings.length - 1}, $${
+							bindings.length
+						})`,
+					);
+				}
+				bindings.push(STREAM_BATCH_SIZE);
+				const sql = `
+SELECT "id", ${SELECT_FIELDS}
+FROM "device log"
+WHERE ${where.join('\nAND ')}
+ORDER BY "created at" ASC, "id" ASC
+LIMIT $${bindings.length}`;
+				selectLogs(sql, bindings)
+					.then(rows => {
+						reading = false;
+						for (const row of rows) {
+							stream.push(this.fromRow(row));
+						}
+						if (rows.length < STREAM_BATCH_SIZE) {
+							stream.push(null);
+							return;
+						}
+						const last = rows[rows.length - 1];
+						after = { createdAt: _.toNumber(last['created at']), id: last.id };
+					})
+					.catch((err: Error) => {
+						stream.emit('error', err);
+					});
+			},
+		});
+		return stream;
+	}
+
+	public get available(): boolean {
+		return true;
+	}
+
+	public publish(ctx: LogWriteContext, logs: DeviceLog[]): Promise<any> {
+		const bindings: any[] = [];
+		const values = logs.map(log => {
+			const placeholders = [
+				ctx.id,
+				log.createdAt,
+				log.timestamp,
+				log.isSystem,
+				log.isStdErr,
+				log.serviceId == null ? null : log.serviceId,
+				log.message,
+			].map(value => {
+				bindings.push(value);
+				return `$${bindings.length}`;
+			});
+			return `(${placeholders.join(', ')})`;
+		});
+		const sql = `
+INSERT INTO "device log" ("device", ${SELECT_FIELDS})
+VALUES ${values.join(',\n')}`;
+		return Promise.resolve(db.executeSql(sql, bindings))
+			.then(() => this.prune(ctx))
+			.then(() => {
+				// The logs are already stored at this point, so failing to reach the
+				// live subscribers should not fail the whole request
+				if (!this.live.available) {
+					return;
+				}
+				return this.live.broadcast(ctx, logs).catch((err: Error) => {
+					captureException(err, 'Failed to broadcast device logs');
+				});
+			});
+	}
+
+	public delete(ctx: LogContext, tx?: Tx): Promise<any> {
+		return Promise.resolve(
+			(tx || db).executeSql(
+				`
+DELETE FROM "device log"
+WHERE "device" = $1`,
+				[ctx.id],
+			),
+		);
+	}
+
+	public subscribe(ctx: LogContext, subscription: Subscription) {
+		this.live.subscribe(ctx, subscription);
+	}
+
+	public unsubscribe(ctx: LogContext, subscription: Subscription) {
+		this.live.unsubscribe(ctx, subscription);
+	}
+
+	// Builds the SQL conditions for the logs of the device matching the query,
+	// adding the values to the bindings
+	private getConditions(
+		ctx: LogContext,
+		query: HistoryQuery,
+		bindings: any[],
+	): string[] {
+		const bind = (value: any) => {
+			bindings.push(value);
+			return `$${bindings.length}`;
+		};
+		const where = [`"device" = ${bind(ctx.id)}`];
+		if (ctx.retention_age != null) {
+			where.push(`"created at" >= ${bind(Date.now() - ctx.retention_age)}`);
+		}
+		const timeColumn = TIME_COLUMNS[query.timeField];
+		if (query.since != null) {
+			where.push(`"${timeColumn}" >= ${bind(query.since)}`);
+		}
+		if (query.until != null) {
+			where.push(`"${timeColumn}" <= ${bind(query.until)}`);
+		}
+		const { filter } = query;
+		if (hasLogFilter(filter)) {
+			if (filter.serviceIds != null) {
+				where.push(
+					`"service id" IN (${filter.serviceIds.map(bind).join(', ')})`,
+				);
+			}
+			if (filter.isSystem != null) {
+				where.push(`"is system" = ${bind(filter.isSystem)}`);
+			}
+			if (filter.isStdErr != null) {
+				where.push(`"is stderr" = ${bind(filter.isStdErr)}`);
+			}
+			if (filter.message != null) {
+				where.push(`STRPOS("message", ${bind(filter.message)}) > 0`);
+			}
+			if (filter.messageRegex != null) {
+				// The patterns Postgres rejects end up as bad requests
+				where.push(`"message" ~ ${bind(filter.messageRegex.source)}`);
+			}
+		}
+		return where;
+	}
+
+	// Unlike Redis, many more logs are kept unless a retention is configured
+	private getRetentionLimit(ctx: LogContext): number {
+		return ctx.retention_limit != null
+			? ctx.retention_limit
+			: DEVICE_LOGS_POSTGRES_RETENTION_LIMIT;
+	}
+
+	// Delete the logs that are out of the configured retention of the device
+	private prune(ctx: LogWriteContext): Promise<void> {
+		const now = Date.now();
+		if (now >= this.pruneIntervalEnd) {
+			this.pruned.clear();
+			this.pruneIntervalEnd = now + PRUNE_INTERVAL;
+		}
+		if (this.pruned.has(ctx.id)) {
+			return Promise.resolve();
+		}
+		this.pruned.add(ctx.id);
+
+		const waitPromises: Array<PromiseLike<any>> = [];
+		if (ctx.retention_age != null) {
+			waitPromises.push(
+				db.executeSql(
+					`
+DELETE FROM "device log"
+WHERE "id" IN (
+	SELECT "id"
+	FROM "device log"
+	WHERE "device" = $1
+	AND "created at" < $2
+	LIMIT $3
+)`,
+					[ctx.id, now - ctx.retention_age, PRUNE_BATCH_SIZE],
+				),
+			);
+		}
+		waitPromises.push(
+			db.executeSql(
+				`
+DELETE FROM "device log"
+WHERE "id" IN (
+	SELECT "id"
+	FROM "device log"
+	WHERE "device" = $1
+	AND "created at" < (
+		SELECT "created at"
+		FROM "device log"
+		WHERE "device" = $1
+		ORDER BY "created at" DESC
+		OFFSET $2
+		LIMIT 1
+	)
+	LIMIT $3
+)`,
+				[ctx.id, this.getRetentionLimit(ctx) - 1, PRUNE_BATCH_SIZE],
+			),
+		);
+		return Promise.all(waitPromises).return();
+	}
+
+	private fromRow(row: DeviceLogRow): DeviceLog {
+		// BIGINT columns are returned as strings by the driver
+		const log: DeviceLog = {
+			createdAt: _.toNumber(row['created at']),
+			timestamp: _.toNumber(row.timestamp),
+			isSystem: row['is system'],
+			isStdErr: row['is stderr'],
+			message: row.message,
+		};
+		if (row['service id'] != null) {
+			log.serviceId = row['service id'];
+		}
+		return log;
+	}
+}
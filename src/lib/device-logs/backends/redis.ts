@@ -3,24 +3,50 @@ import * as avro from 'avsc';
 import { EventEmitter } from 'events';
 import * as _ from 'lodash';
 import * as redis from 'redis';
+import { PassThrough, Readable } from 'stream';
 import {
 	DeviceLog,
 	DeviceLogsBackend,
+	HistoryPage,
+	HistoryQuery,
 	LogContext,
 	LogWriteContext,
 	Subscription,
 } from '../struct';
+import { decodeCursor, encodeCursor } from '../cursor';
+import { isFilteredQuery, matchesQuery } from '../filters';
+import { DEFAULT_RETENTION_LIMIT } from '../settings';
 import { captureException } from '../../../platform/errors';
 import { sbvrUtils } from '../../../platform';
-import { REDIS_HOST, REDIS_PORT } from '../../config';
+import { getRedisClient, getRedisSubscriber } from '../../redis';
 
 const { ServiceUnavailableError, BadRequestError } = sbvrUtils;
 
 // Expire after 30 days of inactivity
 const KEY_EXPIRATION = 30 * 24 * 60 * 60 * 1000;
+const HISTORY_CHUNK_SIZE = 1000;
 const VERSION = 1;
 const BUFFER_ENCODING = 'binary';
 
+// The position of a log is the number of logs added before it, so the first log in
+// the list is at the total count minus the list length. Lists written before the
+// total was tracked start at a negative position, which still works the same
+const RANGE_SCRIPT = `
+local len = redis.call('LLEN', KEYS[1])
+local total = tonumber(redis.call('GET', KEYS[2])) or len
+local offset = total - len
+local first = math.max(offset, total - tonumber(ARGV[3]))
+local before = total
+if ARGV[1] ~= '' then
+	before = math.min(tonumber(ARGV[1]), total)
+end
+local from = math.max(before - tonumber(ARGV[2]), first)
+if from >= before then
+	return {first, from, {}}
+end
+return {first, from, redis.call('LRANGE', KEYS[1], from - offset, before - 1 - offset)}
+`;
+
 const schema = avro.Type.forSchema({
 	name: 'log',
 	type: 'record',
@@ -51,33 +77,97 @@ export class RedisBackend implements DeviceLogsBackend {
 	private subscriptions: EventEmitter;
 
 	constructor() {
-		this.cmds = this.createClient();
+		this.cmds = getRedisClient();
 		// This connection goes into "subscriber mode" and cannot be reused for commands
-		this.pubSub = this.createClient();
+		this.pubSub = getRedisSubscriber();
 		this.pubSub.on('message', this.handleMessage.bind(this));
 
 		this.subscriptions = new EventEmitter();
 	}
 
-	public history(ctx: LogContext, count: number): Promise<DeviceLog[]> {
+	public history(ctx: LogContext, query: HistoryQuery): Promise<HistoryPage> {
 		if (!this.connected) {
 			return Promise.reject(new ServiceUnavailableError());
 		}
-		return Promise.fromCallback(callback => {
-			const key = this.getKey(ctx);
-			this.cmds.lrange(key, 0, -1, callback);
-		}).then((payloads: string[]) => {
-			return (
-				_(payloads)
-					// TODO: This slice should be handled in the redis call itself
-					.slice(-count)
-					.map(this.fromRedisLog)
-					.compact()
-					.value()
+		// The list might be longer than the limit if it was lowered since the last publish
+		const limit = ctx.retention_limit || DEFAULT_RETENTION_LIMIT;
+		const filtered = isFilteredQuery(query) || ctx.retention_age != null;
+		// The logs are in creation order, so we can stop reading once they get too old
+		const minCreatedAt = _.max([
+			ctx.retention_age != null ? Date.now() - ctx.retention_age : undefined,
+			query.timeField === 'createdAt' ? query.since : undefined,
+		]);
+		let before: number | undefined;
+		// Collected newest first
+		const logs: DeviceLog[] = [];
+		const readRange = (): Promise<HistoryPage> => {
+			// Without filters every log is returned, so we only read the ones we need
+			const size = filtered
+				? HISTORY_CHUNK_SIZE
+				: Math.min(query.count - logs.length, HISTORY_CHUNK_SIZE);
+			return this.getRange(ctx, before, size, limit).then(
+				([first, from, payloads]) => {
+					let done = false;
+					for (let i = payloads.length - 1; i >= 0 && !done; i--) {
+						before = from + i;
+						const log = this.fromRedisLog(payloads[i]);
+						if (log == null) {
+							continue;
+						}
+						if (minCreatedAt != null && log.createdAt < minCreatedAt) {
+							// Don't page past the logs that are too old
+							before = first;
+							break;
+						}
+						if (!filtered || matchesQuery(log, query)) {
+							logs.push(log);
+							done = logs.length >= query.count;
+						}
+					}
+					if (!done && payloads.length && before != null && before > first) {
+						return readRange();
+					}
+					return {
+						logs: logs.reverse(),
+						cursor:
+							before != null && before > first
+								? encodeCursor({ before })
+								: undefined,
+					};
+				},
 			);
+		};
+		return Promise.try(() => {
+			if (query.cursor != null) {
+				const position = decodeCursor(query.cursor);
+				if (!_.isSafeInteger(position.before)) {
+					throw new BadRequestError('Invalid cursor');
+				}
+				before = position.before;
+			}
+			if (query.count === 0) {
+				return { logs };
+			}
+			return readRange();
 		});
 	}
 
+	public historyStream(ctx: LogContext, query: HistoryQuery): Readable {
+		// The lists are capped by the retention limit, so we can read them at once
+		const stream = new PassThrough({ objectMode: true });
+		this.history(ctx, { ...query, count: Infinity })
+			.then(({ logs }) => {
+				for (const log of logs) {
+					stream.write(log);
+				}
+				stream.end();
+			})
+			.catch((err: Error) => {
+				stream.emit('error', err);
+			});
+		return stream;
+	}
+
 	public get available(): boolean {
 		// should_buffer is there but missing from the official typings
 		return !this.cmds.should_buffer;
@@ -88,13 +178,17 @@ export class RedisBackend implements DeviceLogsBackend {
 			return Promise.reject(new ServiceUnavailableError());
 		}
 
-		const limit = ctx.retention_limit || 0;
+		const limit = ctx.retention_limit || DEFAULT_RETENTION_LIMIT;
 		const key = this.getKey(ctx);
+		const totalKey = this.getTotalKey(ctx);
 		const redisLogs = logs.map(this.toRedisLog, this);
 		// Create a Redis transaction
 		const tx = this.cmds.multi();
 		// Add the logs to the List structure
 		tx.rpush(key, redisLogs);
+		// Keep count of all the logs ever added, which gives each log a stable
+		// position that the cursors can refer to, regardless of trimming
+		tx.incrby(totalKey, redisLogs.length);
 		// Trim it to the retention limit
 		tx.ltrim(key, -limit, -1);
 		// Publish each log using Redis PubSub
@@ -102,12 +196,42 @@ export class RedisBackend implements DeviceLogsBackend {
 			tx.publish(key, rLog);
 		}
 		// Devices with no new logs eventually expire
-		tx.pexpire(key, KEY_EXPIRATION);
+		const expiration = ctx.retention_age || KEY_EXPIRATION;
+		tx.pexpire(key, expiration);
+		tx.pexpire(totalKey, expiration);
+		return Promise.fromCallback(callback => {
+			tx.exec(callback);
+		});
+	}
+
+	// Only publish the logs to the live subscribers, without storing them,
+	// for backends that keep the history elsewhere
+	public broadcast(ctx: LogContext, logs: DeviceLog[]): Promise<any> {
+		if (!this.connected) {
+			return Promise.reject(new ServiceUnavailableError());
+		}
+
+		const key = this.getKey(ctx);
+		const redisLogs = logs.map(this.toRedisLog, this);
+		const tx = this.cmds.multi();
+		for (const rLog of redisLogs) {
+			tx.publish(key, rLog);
+		}
 		return Promise.fromCallback(callback => {
 			tx.exec(callback);
 		});
 	}
 
+	public delete(ctx: LogContext): Promise<any> {
+		if (!this.connected) {
+			return Promise.reject(new ServiceUnavailableError());
+		}
+
+		return Promise.fromCallback(callback => {
+			this.cmds.del(this.getKey(ctx), this.getTotalKey(ctx), callback);
+		});
+	}
+
 	public subscribe(ctx: LogContext, subscription: Subscription) {
 		if (!this.connected) {
 			return;
@@ -127,23 +251,6 @@ export class RedisBackend implements DeviceLogsBackend {
 		}
 	}
 
-	private createClient() {
-		const client = redis.createClient({
-			host: REDIS_HOST,
-			port: REDIS_PORT,
-			retry_strategy: () => 500,
-			enable_offline_queue: false,
-		});
-		// If not handled will crash the process
-		client.on(
-			'error',
-			_.throttle((err: Error) => {
-				captureException(err, 'Redis error');
-			}, 300e3),
-		);
-		return client;
-	}
-
 	private get connected() {
 		return this.cmds.connected && this.pubSub.connected;
 	}
@@ -152,7 +259,38 @@ export class RedisBackend implements DeviceLogsBackend {
 		return `device:${ctx.id}:logs`;
 	}
 
+	private getTotalKey(ctx: LogContext) {
+		return `device:${ctx.id}:logs:total`;
+	}
+
+	// Reads up to `size` of the retained logs before the `before` position, or
+	// the newest ones if not set, resolving to the position of the oldest retained
+	// log, the position of the first log read and the logs read
+	private getRange(
+		ctx: LogContext,
+		before: number | undefined,
+		size: number,
+		limit: number,
+	): Promise<[number, number, string[]]> {
+		return Promise.fromCallback(callback => {
+			this.cmds.eval(
+				RANGE_SCRIPT,
+				2,
+				this.getKey(ctx),
+				this.getTotalKey(ctx),
+				before != null ? before : '',
+				size,
+				limit,
+				callback,
+			);
+		});
+	}
+
 	private handleMessage(key: string, payload: string) {
+		// The connection is shared, so it also gets the messages of other channels
+		if (!this.subscriptions.listenerCount(key)) {
+			return;
+		}
 		const log = this.fromRedisLog(payload);
 		if (log) {
 			this.subscriptions.emit(key, log);
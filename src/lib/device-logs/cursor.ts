@@ -0,0 +1,24 @@
+import * as _ from 'lodash';
+import { sbvrUtils } from '../../platform';
+
+const { BadRequestError } = sbvrUtils;
+
+// The response header with the cursor of the next page of logs
+export const CURSOR_HEADER = 'X-Logs-Cursor';
+
+// Cursors are opaque to the clients, each backend decides what goes in them
+export const encodeCursor = (position: AnyObject): string =>
+	Buffer.from(JSON.stringify(position)).toString('base64');
+
+export function decodeCursor(cursor: string): AnyObject {
+	let position: any;
+	try {
+		position = JSON.parse(Buffer.from(cursor, 'base64').toString());
+	} catch {
+		throw new BadRequestError('Invalid cursor');
+	}
+	if (!_.isPlainObject(position)) {
+		throw new BadRequestError('Invalid cursor');
+	}
+	return position;
+}
@@ -0,0 +1,49 @@
+import { Transform } from 'stream';
+import { DeviceLog } from './struct';
+
+export type ExportFormat = 'ndjson' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ndjson', 'csv'];
+
+const CSV_FIELDS: Array<keyof DeviceLog> = [
+	'createdAt',
+	'timestamp',
+	'isSystem',
+	'isStdErr',
+	'serviceId',
+	'message',
+];
+
+const toCsvValue = (value: DeviceLog[keyof DeviceLog]): string => {
+	if (value == null) {
+		return '';
+	}
+	const str = `${value}`;
+	if (/[",\r\n]/.test(str)) {
+		return `"${str.replace(/"/g, '""')}"`;
+	}
+	return str;
+};
+
+const formatCsvLine = (values: string[]) => values.join(',') + '\r\n';
+
+// Converts an object mode stream of logs to the lines of the given format
+export const createFormatter = (format: ExportFormat): Transform => {
+	const formatter = new Transform({
+		writableObjectMode: true,
+		transform(log: DeviceLog, _encoding, callback) {
+			if (format === 'csv') {
+				callback(
+					undefined,
+					formatCsvLine(CSV_FIELDS.map(field => toCsvValue(log[field]))),
+				);
+			} else {
+				callback(undefined, JSON.stringify(log) + '\n');
+			}
+		},
+	});
+	if (format === 'csv') {
+		formatter.push(formatCsvLine(CSV_FIELDS));
+	}
+	return formatter;
+};
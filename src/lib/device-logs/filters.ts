@@ -0,0 +1,112 @@
+import * as _ from 'lodash';
+import { DeviceLog, HistoryQuery, LogFilter } from './struct';
+
+export const hasTimeRange = (query: HistoryQuery): boolean =>
+	query.since != null || query.until != null;
+
+export const isInTimeRange = (log: DeviceLog, query: HistoryQuery): boolean => {
+	const time = log[query.timeField];
+	if (query.since != null && time < query.since) {
+		return false;
+	}
+	if (query.until != null && time > query.until) {
+		return false;
+	}
+	return true;
+};
+
+export const hasLogFilter = (filter?: LogFilter): filter is LogFilter =>
+	filter != null && _.some(filter, value => value != null);
+
+export const matchesLogFilter = (
+	log: DeviceLog,
+	filter: LogFilter,
+): boolean => {
+	if (
+		filter.serviceIds != null &&
+		(log.serviceId == null || !filter.serviceIds.includes(log.serviceId))
+	) {
+		return false;
+	}
+	if (filter.isSystem != null && log.isSystem !== filter.isSystem) {
+		return false;
+	}
+	if (filter.isStdErr != null && log.isStdErr !== filter.isStdErr) {
+		return false;
+	}
+	if (filter.message != null && !log.message.includes(filter.message)) {
+		return false;
+	}
+	if (filter.messageRegex != null && !filter.messageRegex.test(log.message)) {
+		return false;
+	}
+	return true;
+};
+
+// Whether the logs have to be checked one by one against the query
+export const isFilteredQuery = (query: HistoryQuery): boolean =>
+	hasTimeRange(query) || hasLogFilter(query.filter);
+
+export const matchesQuery = (log: DeviceLog, query: HistoryQuery): boolean =>
+	isInTimeRange(log, query) &&
+	(!hasLogFilter(query.filter) || matchesLogFilter(log, query.filter));
+
+// Patterns are matched against every log, so they are kept short and must not
+// be able to backtrack catastrophically
+const MAX_PATTERN_LENGTH = 256;
+
+// Whether the pattern repeats a group which repeats something itself, like
+// `(a+)+`, the usual cause of catastrophic backtracking
+const hasNestedQuantifiers = (pattern: string): boolean => {
+	// For each open group, whether it contains a repetition
+	const groups = [false];
+	// Whether the previous atom is a group containing a repetition
+	let repeatingGroup = false;
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		const quantifier = /^(\*|\+|\{\d+(,\d*)?\})/.exec(pattern.slice(i));
+		if (quantifier != null) {
+			if (repeatingGroup) {
+				return true;
+			}
+			groups[groups.length - 1] = true;
+			i += quantifier[0].length - 1;
+		} else if (char === '\\') {
+			i++;
+		} else if (char === '[') {
+			// Skip the whole character class
+			for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+				if (pattern[i] === '\\') {
+					i++;
+				}
+			}
+		} else if (char === '(') {
+			groups.push(false);
+			// Skip the `?` of non-capturing groups and assertions
+			if (pattern[i + 1] === '?') {
+				i++;
+			}
+		} else if (char === ')' && groups.length > 1) {
+			const repeats = groups.pop() === true;
+			groups[groups.length - 1] = groups[groups.length - 1] || repeats;
+			repeatingGroup = repeats;
+			continue;
+		}
+		repeatingGroup = false;
+	}
+	return false;
+};
+
+// Compiles a user provided pattern, throwing if it is invalid or unsafe
+export const toSafeRegExp = (pattern: string, flags?: string): RegExp => {
+	if (pattern.length > MAX_PATTERN_LENGTH) {
+		throw new Error(
+			`Pattern is longer than ${MAX_PATTERN_LENGTH} characters: ${pattern}`,
+		);
+	}
+	const regExp = new RegExp(pattern, flags);
+	if (hasNestedQuantifiers(pattern)) {
+		throw new Error(`Pattern has nested quantifiers: ${pattern}`);
+	}
+	return regExp;
+};
@@ -0,0 +1,13 @@
+// Counters of the device logs processed by this instance, since it started
+export type LogsMetric = 'redacted_logs' | 'redacted_matches';
+
+const counters: { [metric in LogsMetric]: number } = {
+	redacted_logs: 0,
+	redacted_matches: 0,
+};
+
+export const incrementMetric = (metric: LogsMetric, value = 1) => {
+	counters[metric] += value;
+};
+
+export const getMetrics = () => ({ ...counters });
@@ -0,0 +1,132 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import * as memoizee from 'memoizee';
+import { LogWriteContext } from './struct';
+import { toSafeRegExp } from './filters';
+import { incrementMetric } from './metrics';
+import { captureException } from '../../platform/errors';
+import { resinApi, root } from '../../platform';
+
+// How long changes to the environment variables take to be picked up
+const REDACTION_CACHE_EXPIRATION = 60 * 1000;
+// Shorter values, like flags and numbers, would mask too much of the logs
+const MIN_REDACTED_VALUE_LENGTH = 6;
+const REDACTED = '[REDACTED]';
+
+interface EnvVar {
+	value: string;
+}
+
+const toRegExp = (pattern: string): RegExp | undefined => {
+	try {
+		return toSafeRegExp(pattern, 'g');
+	} catch (err) {
+		// Patterns are validated when created, but don't fail the logs if one slips through
+		captureException(err, `Invalid log redaction pattern: ${pattern}`);
+	}
+};
+
+// The patterns are looked up with full privileges, as devices cannot read them,
+// nor all of the environment variables that apply to them
+const getRedactionPatterns = memoizee(
+	(deviceId: number): Promise<RegExp[] | undefined> =>
+		resinApi
+			.get({
+				resource: 'device',
+				id: deviceId,
+				passthrough: { req: root },
+				options: {
+					$select: 'id',
+					$expand: {
+						belongs_to__application: {
+							$select: 'should_redact_logs',
+							$expand: {
+								application_environment_variable: { $select: 'value' },
+								application_log_redaction_pattern: {
+									$select: 'log_redaction_pattern',
+								},
+							},
+						},
+						device_environment_variable: { $select: 'value' },
+						service_install: {
+							$select: 'id',
+							$expand: {
+								device_service_environment_variable: { $select: 'value' },
+								service: {
+									$select: 'id',
+									$expand: {
+										service_environment_variable: { $select: 'value' },
+									},
+								},
+							},
+						},
+					},
+				},
+			})
+			.then((device: AnyObject) => {
+				if (device == null) {
+					return;
+				}
+				const [app] = device.belongs_to__application;
+				if (app == null || !app.should_redact_logs) {
+					return;
+				}
+				const envVars: EnvVar[] = _.flatten([
+					app.application_environment_variable,
+					device.device_environment_variable,
+					..._.flatMap(device.service_install, (si: AnyObject) => [
+						si.device_service_environment_variable,
+						..._.flatMap(si.service, 'service_environment_variable'),
+					]),
+				]);
+				const values = _(envVars)
+					.map('value')
+					.filter(value => value.length >= MIN_REDACTED_VALUE_LENGTH)
+					.uniq()
+					// Mask the longest values first, in case they contain other ones
+					.sortBy(value => -value.length)
+					.map(_.escapeRegExp)
+					.value();
+				const patterns = _.compact(
+					_.map(app.application_log_redaction_pattern, (pattern: AnyObject) =>
+						toRegExp(pattern.log_redaction_pattern),
+					),
+				);
+				// The values are escaped, so they are safe to match whatever their length
+				if (values.length) {
+					patterns.unshift(new RegExp(values.join('|'), 'g'));
+				}
+				return patterns;
+			}),
+	{ promise: true, primitive: true, maxAge: REDACTION_CACHE_EXPIRATION },
+);
+
+// Loads the redaction patterns of the device, if its application has redaction enabled
+export function addRedactionSettings(ctx: LogWriteContext): Promise<void> {
+	return getRedactionPatterns(ctx.id).then(patterns => {
+		ctx.redaction_patterns = patterns;
+	});
+}
+
+export function redact(ctx: LogWriteContext, message: string): string {
+	if (ctx.redaction_patterns == null) {
+		return message;
+	}
+	let matches = 0;
+	const redacted = ctx.redaction_patterns.reduce(
+		(msg, pattern) =>
+			msg.replace(pattern, match => {
+				if (match === '') {
+					return match;
+				}
+				matches++;
+				return REDACTED;
+			}),
+		message,
+	);
+	if (matches > 0) {
+		incrementMetric('redacted_logs');
+		incrementMetric('redacted_matches', matches);
+	}
+	return redacted;
+}
@@ -0,0 +1,39 @@
+import * as _ from 'lodash';
+import { LogContext, LogSettings } from './struct';
+
+// Unless configured otherwise, keep the last 1000 logs
+export const DEFAULT_RETENTION_LIMIT = 1000;
+
+export const LOG_SETTINGS_FIELDS: Array<keyof LogSettings> = [
+	'logs_backend',
+	'logs_retention_limit',
+	'logs_retention_age',
+];
+
+// The device setting takes precedence over the application one
+export function getLogSetting<K extends keyof LogSettings>(
+	ctx: LogContext,
+	field: K,
+): LogSettings[K] | undefined {
+	if (ctx[field] != null) {
+		return ctx[field];
+	}
+	const app: LogSettings | undefined = _.get(ctx, [
+		'belongs_to__application',
+		0,
+	]);
+	if (app != null && app[field] != null) {
+		return app[field];
+	}
+}
+
+export function addRetentionSettings(ctx: LogContext) {
+	const limit = getLogSetting(ctx, 'logs_retention_limit');
+	if (limit != null) {
+		ctx.retention_limit = limit;
+	}
+	const age = getLogSetting(ctx, 'logs_retention_age');
+	if (age != null) {
+		ctx.retention_age = age * 1000;
+	}
+}
@@ -0,0 +1,54 @@
+import * as dns from 'dns';
+import * as ipaddr from 'ipaddr.js';
+import * as net from 'net';
+
+// Sinks must not be able to reach the network the API runs in, so they can only
+// send logs to public unicast addresses, which is checked both when they are
+// created and every time their host is resolved
+
+const isPublicAddress = (address: string): boolean => {
+	if (!ipaddr.isValid(address)) {
+		return false;
+	}
+	let ip = ipaddr.parse(address);
+	if (ip instanceof ipaddr.IPv6 && ip.isIPv4MappedAddress()) {
+		ip = ip.toIPv4Address();
+	}
+	return ip.range() === 'unicast';
+};
+
+// Whether the host is an address, or a name, that can't be public. Any other
+// name still has to resolve to public addresses
+export const isPrivateHost = (hostname: string): boolean => {
+	if (ipaddr.isValid(hostname)) {
+		return !isPublicAddress(hostname);
+	}
+	return hostname === 'localhost' || hostname.endsWith('.localhost');
+};
+
+// A dns.lookup failing for the hosts which resolve to any non public address,
+// so that the check and the connection use the same addresses
+export const lookupPublicAddress: net.LookupFunction = (
+	hostname,
+	options,
+	callback,
+) => {
+	dns.lookup(
+		hostname,
+		options,
+		(err, address: string | dns.LookupAddress[], family) => {
+			if (err == null) {
+				// The connections of newer versions of node ask for all the addresses
+				const addresses = Array.isArray(address)
+					? address.map(a => a.address)
+					: [address];
+				if (!addresses.every(isPublicAddress)) {
+					err = new Error(
+						`Log sink host resolves to a non public address: ${hostname}`,
+					);
+				}
+			}
+			callback(err, address as string, family);
+		},
+	);
+};
@@ -0,0 +1,30 @@
+import * as Promise from 'bluebird';
+import * as request from 'request';
+import { DeviceLogWithUuid, LogSink } from '../struct';
+import { lookupPublicAddress } from './hosts';
+import { requestAsync } from '../../request';
+
+const NDJSON_CTYPE = 'application/x-ndjson';
+
+// POSTs each batch of logs as NDJSON, with the uuid of the device on each log
+export class HttpSink implements LogSink {
+	constructor(private url: string) {}
+
+	public send(logs: DeviceLogWithUuid[]): Promise<void> {
+		const body = logs.map(log => JSON.stringify(log) + '\n').join('');
+		return requestAsync({
+			url: this.url,
+			method: 'POST',
+			headers: { 'Content-Type': NDJSON_CTYPE },
+			body,
+			// Passed on to the connection by request, as it doesn't know about it
+			lookup: lookupPublicAddress,
+		} as request.UrlOptions & request.CoreOptions).then(([response]) => {
+			if (response.statusCode < 200 || response.statusCode >= 300) {
+				throw new Error(
+					`Log sink responded with status code ${response.statusCode}`,
+				);
+			}
+		});
+	}
+}
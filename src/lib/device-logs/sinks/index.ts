@@ -0,0 +1,175 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import * as memoizee from 'memoizee';
+import * as url from 'url';
+import { DeviceLog, DeviceLogWithUuid, LogContext, LogSink } from '../struct';
+import { isPrivateHost } from './hosts';
+import { HttpSink } from './http';
+import { DEFAULT_PORTS, SyslogSink, SyslogTransport } from './syslog';
+import { captureException } from '../../../platform/errors';
+import { resinApi, root } from '../../../platform';
+
+// How long changes to the sinks of an application take to be picked up
+const SINKS_CACHE_EXPIRATION = 60 * 1000;
+// Once a sink falls this far behind, the oldest batches are dropped
+const MAX_PENDING_BATCHES = 100;
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 60e3;
+
+const SYSLOG_PROTOCOLS: { [protocol: string]: SyslogTransport } = {
+	'syslog:': 'udp',
+	'syslog+udp:': 'udp',
+	'syslog+tcp:': 'tcp',
+	'syslog+tls:': 'tls',
+};
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+// Creates the sink for urls like `syslog+tcp://host:514` or `https://host/path`,
+// or returns undefined if the url is not supported or its host is not public
+function createSink(sinkUrl: string): LogSink | undefined {
+	const { protocol, hostname, port } = url.parse(sinkUrl);
+	if (protocol == null || hostname == null || isPrivateHost(hostname)) {
+		return;
+	}
+	if (HTTP_PROTOCOLS.includes(protocol)) {
+		return new HttpSink(sinkUrl);
+	}
+	const transport = SYSLOG_PROTOCOLS[protocol];
+	if (transport != null) {
+		return new SyslogSink(
+			transport,
+			hostname,
+			port != null ? parseInt(port, 10) : DEFAULT_PORTS[transport],
+		);
+	}
+}
+
+export const isValidSinkUrl = (sinkUrl: string): boolean =>
+	createSink(sinkUrl) != null;
+
+// Sends the batches to the sink one at a time and in order, retrying the failed
+// ones with an exponential backoff, so that a slow or unreachable sink only
+// delays its own logs and never the ingestion of new ones
+class SinkQueue {
+	private pending: DeviceLogWithUuid[][] = [];
+	private sending = false;
+	private dropped = 0;
+
+	constructor(private sinkUrl: string, private sink: LogSink) {}
+
+	public push(logs: DeviceLogWithUuid[]) {
+		if (this.pending.length >= MAX_PENDING_BATCHES) {
+			const [droppedLogs] = this.pending.splice(0, 1);
+			this.dropped += droppedLogs.length;
+		}
+		this.pending.push(logs);
+		this.next();
+	}
+
+	private next() {
+		if (this.sending) {
+			return;
+		}
+		const logs = this.pending.shift();
+		if (logs == null) {
+			return;
+		}
+		this.sending = true;
+		this.send(logs, 1)
+			.catch((err: Error) => {
+				captureException(err, 'Failed to forward device logs to log sink', {
+					extra: {
+						url: this.sinkUrl,
+						droppedLogs: logs.length + this.dropped,
+					},
+				});
+				this.dropped = 0;
+			})
+			.finally(() => {
+				this.sending = false;
+				this.next();
+			});
+	}
+
+	private send(logs: DeviceLogWithUuid[], attempt: number): Promise<void> {
+		return Promise.try(() => this.sink.send(logs)).catch(err => {
+			if (attempt >= MAX_SEND_ATTEMPTS) {
+				throw err;
+			}
+			const delay = Math.min(
+				RETRY_BASE_DELAY * Math.pow(2, attempt - 1),
+				RETRY_MAX_DELAY,
+			);
+			return Promise.delay(delay).then(() => this.send(logs, attempt + 1));
+		});
+	}
+}
+
+// Sinks are shared by all the devices forwarding to the same url
+const getSinkQueue = memoizee(
+	(sinkUrl: string): SinkQueue | undefined => {
+		const sink = createSink(sinkUrl);
+		if (sink != null) {
+			return new SinkQueue(sinkUrl, sink);
+		}
+	},
+	{ primitive: true },
+);
+
+// The sinks are configured on the application and are not visible to devices,
+// so we look them up with full privileges
+const getSinkUrls = memoizee(
+	(deviceId: number): Promise<string[]> =>
+		resinApi
+			.get({
+				resource: 'application_log_sink',
+				passthrough: { req: root },
+				options: {
+					$select: 'log_sink_url',
+					$filter: {
+						application: {
+							$any: {
+								$alias: 'a',
+								$expr: {
+									a: {
+										owns__device: {
+											$any: {
+												$alias: 'd',
+												$expr: { d: { id: deviceId } },
+											},
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+			})
+			.then((sinks: AnyObject[]) => _.map(sinks, 'log_sink_url')),
+	{ promise: true, primitive: true, maxAge: SINKS_CACHE_EXPIRATION },
+);
+
+// Queues the logs for each of the sinks of the application of the device,
+// without waiting for them to be sent
+export function forwardLogs(ctx: LogContext, logs: DeviceLog[]): void {
+	if (logs.length === 0) {
+		return;
+	}
+	getSinkUrls(ctx.id)
+		.then(sinkUrls => {
+			if (sinkUrls.length === 0) {
+				return;
+			}
+			const forwardedLogs = logs.map(log => ({ ...log, uuid: ctx.uuid }));
+			for (const sinkUrl of sinkUrls) {
+				const queue = getSinkQueue(sinkUrl);
+				if (queue != null) {
+					queue.push(forwardedLogs);
+				}
+			}
+		})
+		.catch((err: Error) => {
+			captureException(err, 'Failed to get the log sinks of the device');
+		});
+}
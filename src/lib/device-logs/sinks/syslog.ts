@@ -0,0 +1,122 @@
+import * as Promise from 'bluebird';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as tls from 'tls';
+import { DeviceLogWithUuid, LogSink } from '../struct';
+import { lookupPublicAddress } from './hosts';
+
+export type SyslogTransport = 'tcp' | 'tls' | 'udp';
+
+export const DEFAULT_PORTS: { [transport in SyslogTransport]: number } = {
+	tcp: 514,
+	tls: 6514,
+	udp: 514,
+};
+
+// Close the connections of sinks that are not receiving logs anymore
+const IDLE_TIMEOUT = 60e3;
+
+const FACILITY_USER = 1;
+const FACILITY_DAEMON = 3;
+const SEVERITY_ERROR = 3;
+const SEVERITY_INFO = 6;
+
+const NIL_VALUE = '-';
+
+// Formats the log as an RFC5424 message, using the device uuid as the hostname
+export function formatSyslogMessage(log: DeviceLogWithUuid): string {
+	const facility = log.isSystem ? FACILITY_DAEMON : FACILITY_USER;
+	const severity = log.isStdErr ? SEVERITY_ERROR : SEVERITY_INFO;
+	const appName =
+		log.serviceId != null ? `service_${log.serviceId}` : NIL_VALUE;
+	const header = [
+		`<${facility * 8 + severity}>1`,
+		new Date(log.timestamp).toISOString(),
+		log.uuid,
+		appName,
+		// PROCID, MSGID and STRUCTURED-DATA
+		NIL_VALUE,
+		NIL_VALUE,
+		NIL_VALUE,
+	];
+	return `${header.join(' ')} ${log.message}`;
+}
+
+export class SyslogSink implements LogSink {
+	private socket?: Promise<net.Socket>;
+	private udpSocket?: dgram.Socket;
+
+	constructor(
+		private transport: SyslogTransport,
+		private host: string,
+		private port: number,
+	) {}
+
+	public send(logs: DeviceLogWithUuid[]): Promise<void> {
+		const messages = logs.map(formatSyslogMessage);
+		if (this.transport === 'udp') {
+			return Promise.each(messages, message => this.sendDatagram(message))
+				.finally(() => this.closeDatagramSocket())
+				.return();
+		}
+		// Use the octet counting framing of RFC6587, as messages can be multiline
+		const data = messages
+			.map(message => `${Buffer.byteLength(message)} ${message}`)
+			.join('');
+		return this.getSocket().then(socket =>
+			Promise.fromCallback(callback => {
+				socket.write(data, callback);
+			}).return(),
+		);
+	}
+
+	private getSocket(): Promise<net.Socket> {
+		if (this.socket == null) {
+			const socket = new Promise<net.Socket>((resolve, reject) => {
+				const options = {
+					host: this.host,
+					port: this.port,
+					lookup: lookupPublicAddress,
+				};
+				const conn: net.Socket =
+					this.transport === 'tls'
+						? tls.connect(options, () => resolve(conn))
+						: net.connect(options, () => resolve(conn));
+				conn.setTimeout(IDLE_TIMEOUT, () => {
+					conn.end();
+				});
+				// Errors also close the socket, so there is nothing else to do here
+				// other than making sure they don't crash the process
+				conn.on('error', reject);
+				conn.on('close', () => {
+					if (this.socket === socket) {
+						this.socket = undefined;
+					}
+				});
+			});
+			this.socket = socket;
+		}
+		return this.socket;
+	}
+
+	private sendDatagram(message: string): Promise<void> {
+		if (this.udpSocket == null) {
+			this.udpSocket = dgram.createSocket({
+				type: 'udp4',
+				lookup: lookupPublicAddress,
+			});
+			this.udpSocket.on('error', () => this.closeDatagramSocket());
+		}
+		const socket = this.udpSocket;
+		return Promise.fromCallback(callback => {
+			socket.send(message, this.port, this.host, callback);
+		}).return();
+	}
+
+	private closeDatagramSocket() {
+		if (this.udpSocket != null) {
+			this.udpSocket.close();
+			this.udpSocket = undefined;
+		}
+	}
+}
@@ -1,12 +1,26 @@
 import * as Promise from 'bluebird';
 import { Request } from 'express';
-import { PinejsClient } from '../../platform';
+import { Readable } from 'stream';
+import { PinejsClient, Tx } from '../../platform';
 
-export interface LogContext {
+// The logs settings that can be set on both the device and its application,
+// where the device ones take precedence
+export interface LogSettings {
+	logs_backend?: string | null;
+	logs_retention_limit?: number | null;
+	// In seconds
+	logs_retention_age?: number | null;
+}
+
+export interface LogContext extends LogSettings {
 	id: number;
 	uuid: string;
 	logs_channel?: string;
+	belongs_to__application?: LogSettings[];
+	// The resolved retention, where unset values fall back to the backend defaults
 	retention_limit?: number;
+	// In milliseconds
+	retention_age?: number;
 	resinApi: PinejsClient;
 	req: Request;
 }
@@ -21,6 +35,11 @@ export interface LogWriteContext extends LogContext {
 			}>;
 		}>;
 	}>;
+	// The contexts of the dependent devices this device has sent logs for,
+	// or undefined if the device doesn't manage them
+	dependents?: Dictionary<Promise<LogWriteContext | undefined>>;
+	// The patterns to mask in the messages, if the application has redaction enabled
+	redaction_patterns?: RegExp[];
 }
 
 // This is the format we store and that we output to consumers
@@ -34,6 +53,17 @@ export interface DeviceLog {
 	serviceId?: number;
 }
 
+// This is the format we output to consumers of streams with multiple devices
+export interface DeviceLogWithUuid extends DeviceLog {
+	uuid: string;
+}
+
+// This is the format we convert the received logs to, as gateways also send the
+// logs of the dependent devices they manage, which we route using their uuid
+export interface IncomingDeviceLog extends DeviceLog {
+	uuid?: string;
+}
+
 // This is the format we get from new supervisors
 export interface SupervisorLog {
 	message: string;
@@ -41,8 +71,7 @@ export interface SupervisorLog {
 	isSystem?: boolean;
 	isStdErr?: boolean;
 	serviceId?: number;
-	// To support dependent devices in the future, the supervisor sends their uuid
-	// TODO: For now, we just ignore these logs for the first iteration
+	// For the logs of dependent devices, the gateway sends their uuid
 	uuid?: string;
 }
 
@@ -60,12 +89,54 @@ export type AnySupervisorLog = OldSupervisorLog | SupervisorLog;
 
 export type Subscription = (log: DeviceLog) => void;
 
+// Which of the 2 dates of a log a time range applies to
+export type LogTimeField = 'createdAt' | 'timestamp';
+
+// Only logs matching all of the set fields pass the filter
+export interface LogFilter {
+	serviceIds?: number[];
+	isSystem?: boolean;
+	isStdErr?: boolean;
+	// Substring the message must contain
+	message?: string;
+	messageRegex?: RegExp;
+}
+
+export interface HistoryQuery {
+	// The maximum number of (most recent) logs to return, can be Infinity
+	count: number;
+	// Inclusive time range, as timestamps including milliseconds
+	since?: number;
+	until?: number;
+	timeField: LogTimeField;
+	filter?: LogFilter;
+	// The opaque cursor of a previous page, to get the logs before that page
+	cursor?: string;
+}
+
+export interface HistoryPage {
+	// In order, oldest first
+	logs: DeviceLog[];
+	// Only set if there might be older logs matching the query
+	cursor?: string;
+}
+
 export interface DeviceLogsBackend {
-	history(ctx: LogContext, count: number): Promise<DeviceLog[]>;
+	history(ctx: LogContext, query: HistoryQuery): Promise<HistoryPage>;
+	// An object mode stream of all the logs matching the query in order,
+	// regardless of its count, for reading them without loading them all at once
+	historyStream(ctx: LogContext, query: HistoryQuery): Readable;
 	available: boolean;
 	publish(ctx: LogWriteContext, logs: DeviceLog[]): Promise<any>;
 	subscribe(ctx: LogContext, subscription: Subscription): void;
 	unsubscribe(ctx: LogContext, subscription: Subscription): void;
+	// Removes all the stored logs of the device
+	delete(ctx: LogContext, tx?: Tx): Promise<any>;
+}
+
+// A destination the logs are forwarded to as they are received
+export interface LogSink {
+	send(logs: DeviceLogWithUuid[]): Promise<void>;
 }
 
 export enum StreamState {
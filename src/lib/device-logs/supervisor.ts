@@ -2,6 +2,7 @@ import * as _ from 'lodash';
 import { sbvrUtils } from '../../platform';
 import {
 	DeviceLog,
+	IncomingDeviceLog,
 	LogWriteContext,
 	SupervisorLog,
 	AnySupervisorLog,
@@ -14,7 +15,7 @@ export class Supervisor {
 	public convertLogs(
 		ctx: LogWriteContext,
 		logs: AnySupervisorLog[],
-	): DeviceLog[] {
+	): IncomingDeviceLog[] {
 		if (logs.length > MAX_LOGS_PER_BATCH) {
 			throw new sbvrUtils.BadRequestError(
 				`Batches cannot include more than ${MAX_LOGS_PER_BATCH} logs`,
@@ -31,18 +32,14 @@ export class Supervisor {
 	public convertAnyLog(
 		ctx: LogWriteContext,
 		log: AnySupervisorLog,
-	): DeviceLog | undefined {
+	): IncomingDeviceLog | undefined {
 		return this.isOldLog(log)
 			? this.convertOldLog(ctx, log)
 			: this.convertLog(log);
 	}
 
-	public convertLog(log: SupervisorLog): DeviceLog | undefined {
-		// see struct.ts for explanation on this
-		if (log.uuid) {
-			return;
-		}
-		return {
+	public convertLog(log: SupervisorLog): IncomingDeviceLog | undefined {
+		const deviceLog: IncomingDeviceLog = {
 			createdAt: Date.now(),
 			timestamp: log.timestamp,
 			isSystem: log.isSystem === true,
@@ -50,6 +47,11 @@ export class Supervisor {
 			message: log.message,
 			serviceId: log.serviceId,
 		};
+		// see struct.ts for explanation on this
+		if (log.uuid) {
+			deviceLog.uuid = log.uuid;
+		}
+		return deviceLog;
 	}
 
 	private isOldLog(log: AnySupervisorLog): log is OldSupervisorLog {
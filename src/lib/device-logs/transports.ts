@@ -0,0 +1,184 @@
+import * as Promise from 'bluebird';
+import { EventEmitter } from 'events';
+import { Application, Request, Response } from 'express';
+import { IncomingMessage, Server, ServerResponse } from 'http';
+import { Socket } from 'net';
+import * as WebSocket from 'ws';
+import { DeviceLog } from './struct';
+
+export const NDJSON_CTYPE = 'application/x-ndjson';
+export const SSE_CTYPE = 'text/event-stream';
+
+// Consider a WebSocket saturated once this much data is waiting to be sent
+const WEBSOCKET_BUFFER_LIMIT = 64 * 1024;
+// Close code for unexpected server errors
+const WEBSOCKET_INTERNAL_ERROR = 1011;
+
+export type TransportType = 'ndjson' | 'sse' | 'websocket';
+
+// A live stream of logs to a reader. Writes return false once the reader
+// cannot keep up, until the transport emits 'drain'. It emits 'close' when
+// the reader goes away
+export interface LogsTransport extends EventEmitter {
+	// The connection no longer speaks HTTP, so errors can't be sent as responses
+	readonly upgraded: boolean;
+	write(log: DeviceLog): boolean;
+	heartbeat(): void;
+	end(err?: Error): void;
+}
+
+const webSocketServer = new WebSocket.Server({ noServer: true });
+// The data the client sent along with the upgrade requests, for the handshake
+const upgradeHeads = new WeakMap<IncomingMessage, Buffer>();
+
+const isWebSocketRequest = (req: IncomingMessage) =>
+	(req.headers.upgrade || '').toLowerCase() === 'websocket';
+
+// WebSocket upgrades are emitted by the server rather than routed as requests,
+// so they are dispatched through the app like any other request, to be
+// authenticated the same way, until a logs route accepts them. Until then they
+// can still be answered with a plain HTTP response, like when they are denied
+export function handleWebSocketUpgrades(app: Application, server: Server) {
+	server.on('upgrade', (req: IncomingMessage, socket: Socket, head: Buffer) => {
+		if (!isWebSocketRequest(req)) {
+			socket.destroy();
+			return;
+		}
+		upgradeHeads.set(req, head);
+		const res = new ServerResponse(req);
+		res.assignSocket(socket);
+		res.on('finish', () => {
+			socket.end();
+		});
+		app(req, res);
+	});
+}
+
+export function getTransportType(req: Request): TransportType {
+	if (isWebSocketRequest(req)) {
+		return 'websocket';
+	}
+	// Default to NDJSON, which we always used regardless of the Accept header
+	return req.accepts([NDJSON_CTYPE, SSE_CTYPE]) === SSE_CTYPE
+		? 'sse'
+		: 'ndjson';
+}
+
+class NdjsonTransport extends EventEmitter implements LogsTransport {
+	public readonly upgraded = false;
+
+	constructor(req: Request, protected res: Response) {
+		super();
+		res.setHeader('Content-Type', this.contentType);
+		res.setHeader('Cache-Control', 'no-cache');
+		res.on('drain', () => this.emit('drain'));
+		req.on('aborted', () => this.emit('close'));
+		res.on('close', () => this.emit('close'));
+	}
+
+	public write(log: DeviceLog): boolean {
+		return this.send(JSON.stringify(log) + '\n');
+	}
+
+	public heartbeat() {
+		// In order to keep the connection alive, output new lines every now and then
+		this.send('\n');
+	}
+
+	public end() {
+		this.res.end();
+	}
+
+	protected get contentType() {
+		return NDJSON_CTYPE;
+	}
+
+	// Compressed responses are buffered, but the logs have to be sent right away
+	protected send(data: string): boolean {
+		const written = this.res.write(data);
+		this.res.flush();
+		return written;
+	}
+}
+
+// Uses the createdAt of the logs as the event ids, so that browsers can
+// resume the stream with the Last-Event-ID header when reconnecting
+class SseTransport extends NdjsonTransport {
+	public write(log: DeviceLog): boolean {
+		return this.send(`id: ${log.createdAt}\ndata: ${JSON.stringify(log)}\n\n`);
+	}
+
+	public heartbeat() {
+		// Comments are ignored by the clients
+		this.send(':\n\n');
+	}
+
+	protected get contentType() {
+		return SSE_CTYPE;
+	}
+}
+
+// Sends each log as a JSON text message
+class WebSocketTransport extends EventEmitter implements LogsTransport {
+	public readonly upgraded = true;
+	private saturated = false;
+
+	constructor(private ws: WebSocket) {
+		super();
+		ws.on('close', () => this.emit('close'));
+		// Errors also close the connection
+		ws.on('error', () => this.emit('close'));
+	}
+
+	public write(log: DeviceLog): boolean {
+		this.ws.send(JSON.stringify(log), () => {
+			if (this.saturated && this.ws.bufferedAmount === 0) {
+				this.saturated = false;
+				this.emit('drain');
+			}
+		});
+		if (this.ws.bufferedAmount > WEBSOCKET_BUFFER_LIMIT) {
+			this.saturated = true;
+		}
+		return !this.saturated;
+	}
+
+	public heartbeat() {
+		this.ws.ping();
+	}
+
+	public end(err?: Error) {
+		if (err != null) {
+			this.ws.close(WEBSOCKET_INTERNAL_ERROR, 'Server error');
+		} else {
+			this.ws.close();
+		}
+	}
+}
+
+export function createTransport(
+	req: Request,
+	res: Response,
+): Promise<LogsTransport> {
+	const type = getTransportType(req);
+	if (type === 'websocket') {
+		const head = upgradeHeads.get(req);
+		if (head == null) {
+			return Promise.reject(
+				new Error('WebSocket upgrade was not received by the server'),
+			);
+		}
+		const { socket } = req;
+		// The handshake takes over the socket from the response
+		res.detachSocket(socket);
+		return new Promise<LogsTransport>(resolve => {
+			webSocketServer.handleUpgrade(req, socket, head, ws => {
+				resolve(new WebSocketTransport(ws));
+			});
+		});
+	}
+	if (type === 'sse') {
+		return Promise.resolve(new SseTransport(req, res));
+	}
+	return Promise.resolve(new NdjsonTransport(req, res));
+}
@@ -0,0 +1,208 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import * as redis from 'redis';
+import { DeviceLog, LogContext } from './struct';
+import { TooManyRequestsError } from '../errors';
+import { getRedisClient } from '../redis';
+import { captureException } from '../../platform/errors';
+import { sbvrUtils } from '../../platform';
+import {
+	DEVICE_LOGS_APPLICATION_DAILY_BYTES_QUOTA,
+	DEVICE_LOGS_APPLICATION_DAILY_LINES_QUOTA,
+	DEVICE_LOGS_DEVICE_DAILY_BYTES_QUOTA,
+	DEVICE_LOGS_DEVICE_DAILY_LINES_QUOTA,
+} from '../config';
+
+const { ServiceUnavailableError } = sbvrUtils;
+
+// Keep the usage of the previous days around for a while, for inspection
+const USAGE_EXPIRATION = 7 * 24 * 60 * 60;
+
+// Logs are either stored, dropped after being accepted (from a stream that went
+// over its quota or for a device the gateway doesn't manage), or rejected along
+// with the whole batch that would go over the quota
+export type LogsUsageType = 'ingested' | 'dropped' | 'rejected';
+
+export interface LogsUsage {
+	lines: number;
+	bytes: number;
+}
+
+export interface LogsQuota {
+	lines?: number;
+	bytes?: number;
+}
+
+export interface LogsUsageStats {
+	// The UTC day the usage is for, as YYYY-MM-DD
+	date: string;
+	ingested: LogsUsage;
+	dropped: LogsUsage;
+	rejected: LogsUsage;
+	quota: LogsQuota;
+}
+
+const DEVICE_QUOTA: LogsQuota = {
+	lines: DEVICE_LOGS_DEVICE_DAILY_LINES_QUOTA,
+	bytes: DEVICE_LOGS_DEVICE_DAILY_BYTES_QUOTA,
+};
+const APPLICATION_QUOTA: LogsQuota = {
+	lines: DEVICE_LOGS_APPLICATION_DAILY_LINES_QUOTA,
+	bytes: DEVICE_LOGS_APPLICATION_DAILY_BYTES_QUOTA,
+};
+
+const getDate = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+// Seconds until the quotas reset at midnight UTC
+const getSecondsUntilReset = (now: number) => {
+	const reset = new Date(now);
+	reset.setUTCHours(24, 0, 0, 0);
+	return Math.ceil((reset.getTime() - now) / 1000);
+};
+
+const getDeviceKey = (ctx: LogContext, date: string) =>
+	`device:${ctx.id}:logs:usage:${date}`;
+
+const getApplicationKey = (ctx: LogContext, date: string) => {
+	const appId: number | undefined = _.get(ctx, [
+		'belongs_to__application',
+		0,
+		'id',
+	]);
+	if (appId != null) {
+		return `application:${appId}:logs:usage:${date}`;
+	}
+};
+
+const getUsage = (logs: DeviceLog[]): LogsUsage => ({
+	lines: logs.length,
+	bytes: _.sumBy(logs, log => Buffer.byteLength(log.message)),
+});
+
+const hasQuota = (quota: LogsQuota) =>
+	quota.lines != null || quota.bytes != null;
+
+const isOverQuota = (quota: LogsQuota, lines: number, bytes: number) =>
+	(quota.lines != null && lines > quota.lines) ||
+	(quota.bytes != null && bytes > quota.bytes);
+
+const execMulti = (multi: redis.Multi): Promise<any[]> =>
+	Promise.fromCallback<any[]>(callback => {
+		multi.exec(callback);
+	});
+
+// Rejects with a TooManyRequestsError if storing the logs would take the device
+// or its application over their daily quota, and otherwise counts them against
+// the quotas straight away, so that concurrent requests can't both get through.
+// An empty list of logs checks whether the quota is already exhausted. The quotas
+// can't be enforced without Redis, so the logs are refused while it is down
+export function checkQuota(ctx: LogContext, logs: DeviceLog[]): Promise<void> {
+	const now = Date.now();
+	const date = getDate(now);
+	const checks: Array<[string, LogsQuota]> = [];
+	if (hasQuota(DEVICE_QUOTA)) {
+		checks.push([getDeviceKey(ctx, date), DEVICE_QUOTA]);
+	}
+	const appKey = getApplicationKey(ctx, date);
+	if (appKey != null && hasQuota(APPLICATION_QUOTA)) {
+		checks.push([appKey, APPLICATION_QUOTA]);
+	}
+	if (checks.length === 0) {
+		return Promise.resolve();
+	}
+	const client = getRedisClient();
+	if (!client.connected) {
+		return Promise.reject(new ServiceUnavailableError());
+	}
+	const usage = getUsage(logs);
+	const increment = (multi: redis.Multi, sign: number) => {
+		for (const [key] of checks) {
+			multi.hincrby(key, 'quota:lines', sign * usage.lines);
+			multi.hincrby(key, 'quota:bytes', sign * usage.bytes);
+			multi.expire(key, USAGE_EXPIRATION);
+		}
+		return execMulti(multi);
+	};
+	return increment(client.multi(), 1)
+		.then(
+			(results): Promise<void> => {
+				const exhaustedQuota = _.find(checks, ([, quota], i) => {
+					const [lines, bytes] = results.slice(i * 3, i * 3 + 2);
+					// Nothing is stored when checking for an exhausted quota
+					return logs.length
+						? isOverQuota(quota, lines, bytes)
+						: isOverQuota(quota, lines + 1, bytes);
+				});
+				if (exhaustedQuota == null) {
+					return Promise.resolve();
+				}
+				return increment(client.multi(), -1).then(() => {
+					throw new TooManyRequestsError(
+						exhaustedQuota[1] === DEVICE_QUOTA
+							? 'The daily logs quota of the device is exhausted'
+							: 'The daily logs quota of the application is exhausted',
+						getSecondsUntilReset(now),
+					);
+				});
+			},
+		)
+		.catch((err: Error) => {
+			if (err instanceof TooManyRequestsError) {
+				throw err;
+			}
+			captureException(err, 'Failed to check the device logs quota');
+			throw new ServiceUnavailableError();
+		});
+}
+
+// Adds the logs to the usage of the device and its application for the day,
+// without waiting for it to be recorded
+export function recordUsage(
+	ctx: LogContext,
+	type: LogsUsageType,
+	logs: DeviceLog[],
+): void {
+	const client = getRedisClient();
+	if (!client.connected || logs.length === 0) {
+		return;
+	}
+	const date = getDate(Date.now());
+	const usage = getUsage(logs);
+	const tx = client.multi();
+	for (const key of _.compact([
+		getDeviceKey(ctx, date),
+		getApplicationKey(ctx, date),
+	])) {
+		tx.hincrby(key, `${type}:lines`, usage.lines);
+		tx.hincrby(key, `${type}:bytes`, usage.bytes);
+		tx.expire(key, USAGE_EXPIRATION);
+	}
+	tx.exec(err => {
+		if (err) {
+			captureException(err, 'Failed to record the device logs usage');
+		}
+	});
+}
+
+export function getUsageStats(ctx: LogContext): Promise<LogsUsageStats> {
+	const client = getRedisClient();
+	if (!client.connected) {
+		return Promise.reject(new ServiceUnavailableError());
+	}
+	const date = getDate(Date.now());
+	return Promise.fromCallback<Dictionary<string> | null>(callback => {
+		client.hgetall(getDeviceKey(ctx, date), callback);
+	}).then(values => {
+		const getTypeUsage = (type: LogsUsageType): LogsUsage => ({
+			lines: _.toNumber(_.get(values, [`${type}:lines`], 0)),
+			bytes: _.toNumber(_.get(values, [`${type}:bytes`], 0)),
+		});
+		return {
+			date,
+			ingested: getTypeUsage('ingested'),
+			dropped: getTypeUsage('dropped'),
+			rejected: getTypeUsage('rejected'),
+			quota: _.omitBy(DEVICE_QUOTA, _.isNil),
+		};
+	});
+}
@@ -0,0 +1,241 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+
+import {
+	DEVICE_METRICS_INTERVAL,
+	DEVICE_METRICS_RETENTION_DAYS,
+} from './config';
+import { db, Tx } from '../platform';
+
+// The latest health metrics reported by a device are kept on the device itself,
+// whereas their history is downsampled to one point per DEVICE_METRICS_INTERVAL
+// seconds, which keeps the peak of each metric within it, for
+// DEVICE_METRICS_RETENTION_DAYS days by periodically pruning it
+
+// The device fields of the metrics, along with their columns in the time series
+const METRIC_COLUMNS: Dictionary<string> = {
+	cpu_usage: 'cpu usage',
+	cpu_temp: 'cpu temp',
+	memory_usage: 'memory usage',
+	memory_total: 'memory total',
+	storage_usage: 'storage usage',
+	storage_total: 'storage total',
+	uptime: 'uptime',
+};
+
+export const METRIC_FIELDS = Object.keys(METRIC_COLUMNS);
+
+// The metrics whose highest values point at devices in trouble, which the
+// devices of a fleet are ranked by
+const RANKED_METRIC_FIELDS = [
+	'cpu_usage',
+	'cpu_temp',
+	'memory_usage',
+	'storage_usage',
+];
+const TOP_DEVICES_COUNT = 10;
+
+// By default the metrics of the last day are returned
+const DEFAULT_METRICS_PERIOD = 24 * 60 * 60 * 1000;
+
+export interface MetricsQuery {
+	since?: number;
+	until?: number;
+}
+
+export interface MetricsPoint {
+	// The start of the interval, in milliseconds since the epoch
+	timestamp: number;
+	[field: string]: number | null;
+}
+
+export interface RankedDevice {
+	id: number;
+	uuid: string;
+	// The peak of the metric over the period
+	value: number;
+}
+
+export interface FleetMetrics {
+	history: MetricsPoint[];
+	// The devices with the highest peaks of each ranked metric, the highest first
+	top: Dictionary<RankedDevice[]>;
+}
+
+const getInterval = () => Math.max(DEVICE_METRICS_INTERVAL, 1) * 1000;
+
+// Adds the metrics of the values to the current interval of each of the devices
+export const recordMetrics = (
+	tx: Tx,
+	deviceIds: number[],
+	values: AnyObject,
+): Promise<void> => {
+	const fields = METRIC_FIELDS.filter(field => values[field] != null);
+	if (deviceIds.length === 0 || fields.length === 0) {
+		return Promise.resolve();
+	}
+	const interval = getInterval();
+	const timestamp = Math.floor(Date.now() / interval) * interval;
+	const columns = fields.map(field => `"${METRIC_COLUMNS[field]}"`);
+	// All the devices get the same values, so the devices are passed as an array
+	const bindings: any[] = [deviceIds, timestamp, ..._.at(values, fields)];
+	const placeholders = fields.map((_field, i) => `$${i + 3}`);
+	const updates = columns.map(
+		column =>
+			`${column} = GREATEST("device metric".${column}, EXCLUDED.${column})`,
+	);
+	return Promise.resolve(
+		tx.executeSql(
+			`
+INSERT INTO "device metric" ("device", "timestamp", ${columns.join(', ')})
+SELECT d."id", $2, ${placeholders.join(', ')}
+FROM UNNEST($1::INTEGER[]) AS d("id")
+ON CONFLICT ("device", "timestamp") DO UPDATE
+SET ${updates.join(',\n')}`,
+			bindings,
+		),
+	).return();
+};
+
+// Deletes the metrics which are older than the retention, resolving to how many
+// points were deleted
+export const pruneMetrics = (): Promise<number> => {
+	if (DEVICE_METRICS_RETENTION_DAYS <= 0) {
+		return Promise.resolve(0);
+	}
+	return Promise.resolve(
+		db.executeSql(
+			`
+DELETE FROM "device metric"
+WHERE "timestamp" < $1`,
+			[Date.now() - DEVICE_METRICS_RETENTION_DAYS * 24 * 60 * 60 * 1000],
+		),
+	).then(({ rowsAffected }) => rowsAffected);
+};
+
+const getPeriodConditions = (query: MetricsQuery, bindings: any[]) => {
+	const since =
+		query.since != null ? query.since : Date.now() - DEFAULT_METRICS_PERIOD;
+	bindings.push(since);
+	const where = [`"timestamp" >= $${bindings.length}`];
+	if (query.until != null) {
+		bindings.push(query.until);
+		where.push(`"timestamp" < $${bindings.length}`);
+	}
+	return where;
+};
+
+const toNumber = (value: any): number | null =>
+	value == null ? null : _.toNumber(value);
+
+// Resolves to the metrics of the device over time, the oldest first
+export const getDeviceMetrics = (
+	deviceId: number,
+	query: MetricsQuery,
+): Promise<MetricsPoint[]> => {
+	const bindings: any[] = [deviceId];
+	const where = [`"device" = $1`, ...getPeriodConditions(query, bindings)];
+	const columns = METRIC_FIELDS.map(field => `"${METRIC_COLUMNS[field]}"`);
+	return Promise.resolve(
+		db.executeSql(
+			`
+SELECT "timestamp", ${columns.join(', ')}
+FROM "device metric"
+WHERE ${where.join('\nAND ')}
+ORDER BY "timestamp" ASC`,
+			bindings,
+		),
+	).then(({ rows }) =>
+		rows.map((row: AnyObject) => {
+			const point: MetricsPoint = { timestamp: _.toNumber(row.timestamp) };
+			for (const field of METRIC_FIELDS) {
+				point[field] = toNumber(row[METRIC_COLUMNS[field]]);
+			}
+			return point;
+		}),
+	);
+};
+
+// Resolves to the average and the maximum of the metrics of the devices of the
+// application over time, the oldest first, along with the devices that peaked
+// the highest, so that the outliers across a fleet stand out
+export const getFleetMetrics = (
+	applicationId: number,
+	query: MetricsQuery,
+): Promise<FleetMetrics> => {
+	const bindings: any[] = [applicationId];
+	const where = [
+		`d."belongs to-application" = $1`,
+		...getPeriodConditions(query, bindings),
+	];
+	const fleetMetrics = `
+FROM "device metric" m
+JOIN "device" d ON d."id" = m."device"
+WHERE ${where.join('\nAND ')}`;
+	// The devices have columns of the same names, for their latest metrics
+	const aggregates = _.flatMap(METRIC_FIELDS, field => {
+		const column = `m."${METRIC_COLUMNS[field]}"`;
+		return [
+			`AVG(${column}) AS "${field}_avg"`,
+			`MAX(${column}) AS "${field}_max"`,
+		];
+	});
+	const peaks = RANKED_METRIC_FIELDS.map(
+		field => `MAX(m."${METRIC_COLUMNS[field]}") AS "${field}"`,
+	);
+	const rankedValues = RANKED_METRIC_FIELDS.map(
+		field => `('${field}', p."${field}")`,
+	);
+	return Promise.join(
+		db.executeSql(
+			`
+SELECT m."timestamp", COUNT(*) AS "device_count", ${aggregates.join(', ')}
+${fleetMetrics}
+GROUP BY m."timestamp"
+ORDER BY m."timestamp" ASC`,
+			bindings,
+		),
+		db.executeSql(
+			`
+WITH "peaks" AS (
+	SELECT m."device", ${peaks.join(', ')}
+	${fleetMetrics}
+	GROUP BY m."device"
+), "ranks" AS (
+	SELECT p."device", v."metric", v."value",
+	ROW_NUMBER() OVER (PARTITION BY v."metric" ORDER BY v."value" DESC) AS "rank"
+	FROM "peaks" p
+	CROSS JOIN LATERAL (VALUES ${rankedValues.join(', ')}) AS v("metric", "value")
+	WHERE v."value" IS NOT NULL
+)
+SELECT r."metric", r."value", d."id", d."uuid"
+FROM "ranks" r
+JOIN "device" d ON d."id" = r."device"
+WHERE r."rank" <= ${TOP_DEVICES_COUNT}
+ORDER BY r."metric", r."rank"`,
+			bindings,
+		),
+		({ rows: historyRows }, { rows: rankRows }) => {
+			const history = historyRows.map((row: AnyObject) => {
+				// COUNT, AVG and BIGINT columns are returned as strings by the driver
+				const point: MetricsPoint = {
+					timestamp: _.toNumber(row.timestamp),
+					device_count: _.toNumber(row.device_count),
+				};
+				for (const field of METRIC_FIELDS) {
+					point[`${field}_avg`] = toNumber(row[`${field}_avg`]);
+					point[`${field}_max`] = toNumber(row[`${field}_max`]);
+				}
+				return point;
+			});
+			const top: Dictionary<RankedDevice[]> = {};
+			for (const field of RANKED_METRIC_FIELDS) {
+				top[field] = [];
+			}
+			for (const row of rankRows) {
+				top[row.metric].push({ id: row.id, uuid: row.uuid, value: row.value });
+			}
+			return { history, top };
+		},
+	);
+};
@@ -0,0 +1,93 @@
+import * as Promise from 'bluebird';
+import * as crypto from 'crypto';
+import * as _ from 'lodash';
+import { PinejsClientCoreFactory } from 'pinejs-client-core';
+
+import { PinejsClient, Tx } from '../platform';
+
+// Pre-registered devices are created ahead of their first boot with a claim
+// expiry date, which stays set until they are claimed. A device is claimed
+// either by presenting its one-time claim code, of which only a hash is kept,
+// or, when it was given a pre-generated api key instead, by reporting its state
+export const PRE_REGISTRATION_STATUSES = ['unclaimed', 'expired'];
+
+export const hashClaimCode = (claimCode: string): string =>
+	crypto
+		.createHash('sha256')
+		.update(claimCode)
+		.digest('hex');
+
+// The serial numbers in the first column of the csv, leaving out a header row
+export const parseSerialNumbers = (csv: string): string[] =>
+	_(csv.split(/\r?\n/))
+		.map(line =>
+			line
+				.split(',')[0]
+				.trim()
+				.replace(/^"(.*)"$/, '$1')
+				.trim(),
+		)
+		.compact()
+		.reject((serialNumber, i) => i === 0 && /^serial/i.test(serialNumber))
+		.value();
+
+// The pre-registered devices of the application which haven't been claimed yet,
+// either all of them or only the ones with the given status
+export const getPreRegistrationsFilter = (
+	appId: number,
+	status?: string,
+): PinejsClientCoreFactory.Filter => {
+	const now = new Date();
+	const claimExpiryDate =
+		status === 'unclaimed'
+			? { $gt: now }
+			: status === 'expired'
+			? { $le: now }
+			: { $ne: null };
+	return {
+		belongs_to__application: appId,
+		claim_expiry_date: claimExpiryDate,
+	};
+};
+
+// Claims the device with the claim code, as long as it hasn't expired, so
+// that the code can't be used again. Resolves to the claimed device, if any
+export const claimDevice = (
+	tx: Tx,
+	claimCode: string,
+): Promise<{ id: number; uuid: string } | undefined> =>
+	Promise.resolve(
+		tx.executeSql(
+			`
+UPDATE "device"
+SET "claim code" = NULL, "claim expiry date" = NULL
+WHERE "claim code" = $1
+AND "claim expiry date" > $2
+RETURNING "id", "uuid"`,
+			[hashClaimCode(claimCode), new Date()],
+		),
+	).then(
+		({ rows }) => _.first(rows) as { id: number; uuid: string } | undefined,
+	);
+
+// Marks the devices which were pre-registered with an api key as claimed, once
+// they report their state, unless their pre-registration has expired already
+export const claimPreRegisteredDevices = (
+	api: PinejsClient,
+	deviceIds: number[],
+): Promise<void> =>
+	api
+		.patch({
+			resource: 'device',
+			options: {
+				$filter: {
+					id: { $in: deviceIds },
+					claim_code: null,
+					claim_expiry_date: { $gt: new Date() },
+				},
+			},
+			body: {
+				claim_expiry_date: null,
+			},
+		})
+		.return();
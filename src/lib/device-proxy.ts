@@ -218,66 +218,97 @@ export function requestDevices({
 				throw new NoDevicesFoundError('No online device(s) found');
 			}
 			// And now fetch device data with full privs
-			return resinApi
-				.get({
-					resource: 'device',
-					passthrough: { req: root },
-					options: {
-						$select: ['api_port', 'api_secret', 'uuid'],
-						$expand: {
-							is_managed_by__service_instance: { $select: 'ip_address' },
-						},
-						$filter: {
-							id: { $in: devices.map(({ id }) => id) },
-							is_managed_by__service_instance: {
-								$any: {
-									$alias: 'si',
-									$expr: { si: { ip_address: { $ne: null } } },
-								},
-							},
-						},
-					},
-				})
-				.then<void | RequestResponse[]>((devices: AnyObject[]) => {
-					const promises: Array<ReturnType<typeof requestAsync>> = [];
-					const waitPromise = Promise.each(devices, device => {
-						const vpnIp = device.is_managed_by__service_instance[0].ip_address;
-						const deviceUrl = `http://${device.uuid}.balena:${device.api_port ||
-							80}${url}?apikey=${device.api_secret}`;
-						let p = requestAsync({
-							uri: deviceUrl,
-							json: data,
-							proxy: `http://resin_api:${API_VPN_SERVICE_API_KEY}@${vpnIp}:3128`,
-							tunnel: true,
-							method,
-							timeout: DEVICE_REQUEST_TIMEOUT,
-						});
-						if (!wait) {
-							// this force-cast is super ugly but harmless because clearly noone
-							// cares about the return value of the promise (since wait == false)
-							// so we just need to satisfy the compiler
-							p = p.catchReturn((undefined as any) as RequestResponse);
-						}
-						promises.push(p);
-						// We add a delay between each notification so that we do not in essence
-						// trigger a DDOS from resin devices against us, but we do not wait for
-						// completion of individual requests because doing so could cause a
-						// terrible UX if we have a device time out, as that would block all the
-						// subsequent notifications
-						return Promise.delay(DELAY_BETWEEN_DEVICE_REQUEST);
-					}).then(() => Promise.all(promises));
-
+			return getDeviceTargets(devices.map(({ id }) => id)).then<
+				void | RequestResponse[]
+			>(targets => {
+				const promises: Array<ReturnType<typeof requestAsync>> = [];
+				const waitPromise = Promise.each(targets, target => {
+					let p = requestDeviceTarget(target, { url, data, method });
 					if (!wait) {
-						// We return null if not waiting in order to stop bluebird warnings,
-						// and we cast as void to keep the void typing (ie that the result
-						// should not be used for this case)
-						return (null as any) as void;
+						// this force-cast is super ugly but harmless because clearly noone
+						// cares about the return value of the promise (since wait == false)
+						// so we just need to satisfy the compiler
+						p = p.catchReturn((undefined as any) as RequestResponse);
 					}
-					return waitPromise;
-				});
+					promises.push(p);
+					// We add a delay between each notification so that we do not in essence
+					// trigger a DDOS from resin devices against us, but we do not wait for
+					// completion of individual requests because doing so could cause a
+					// terrible UX if we have a device time out, as that would block all the
+					// subsequent notifications
+					return Promise.delay(DELAY_BETWEEN_DEVICE_REQUEST);
+				}).then(() => Promise.all(promises));
+
+				if (!wait) {
+					// We return null if not waiting in order to stop bluebird warnings,
+					// and we cast as void to keep the void typing (ie that the result
+					// should not be used for this case)
+					return (null as any) as void;
+				}
+				return waitPromise;
+			});
 		});
 }
 
+// What is needed to reach a device through the vpn, which can be kept to still
+// reach the device once it is gone from the database
+export interface DeviceTarget {
+	uuid: string;
+	api_port: number | null;
+	api_secret: string;
+	vpn_ip: string;
+}
+
+// Resolves to the targets of the devices which are managed by a service
+// instance, leaving the others out
+export const getDeviceTargets = (
+	deviceIds: number[],
+): Promise<DeviceTarget[]> =>
+	resinApi
+		.get({
+			resource: 'device',
+			passthrough: { req: root },
+			options: {
+				$select: ['api_port', 'api_secret', 'uuid'],
+				$expand: {
+					is_managed_by__service_instance: { $select: 'ip_address' },
+				},
+				$filter: {
+					id: { $in: deviceIds },
+					is_managed_by__service_instance: {
+						$any: {
+							$alias: 'si',
+							$expr: { si: { ip_address: { $ne: null } } },
+						},
+					},
+				},
+			},
+		})
+		.then((devices: AnyObject[]) =>
+			devices.map(device => ({
+				uuid: device.uuid,
+				api_port: device.api_port,
+				api_secret: device.api_secret,
+				vpn_ip: device.is_managed_by__service_instance[0].ip_address,
+			})),
+		);
+
+export const requestDeviceTarget = (
+	target: DeviceTarget,
+	{ url, data, method }: { url: string; data?: AnyObject; method: string },
+): Promise<RequestResponse> => {
+	const deviceUrl = `http://${target.uuid}.balena:${target.api_port ||
+		80}${url}?apikey=${target.api_secret}`;
+	return requestAsync({
+		uri: deviceUrl,
+		json: data,
+		proxy: `http://resin_api:${API_VPN_SERVICE_API_KEY}@${target.vpn_ip}:3128`,
+		tunnel: true,
+		method,
+		timeout: DEVICE_REQUEST_TIMEOUT,
+	});
+};
+
 export function postDevices(
 	opts: FixedMethodRequestDevicesOpts & {
 		wait?: true;
@@ -0,0 +1,226 @@
+import * as Promise from 'bluebird';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as _ from 'lodash';
+import { PinejsClientCoreFactory } from 'pinejs-client-core';
+
+import { DEVICE_STATE_CACHE_TTL } from './config';
+import { getRedisClient, getRedisSubscriber } from './redis';
+import { captureException } from '../platform/errors';
+import { resinApi, root, Tx } from '../platform';
+
+// The target states of the devices are cached until any of the resources they
+// are built from changes, or for DEVICE_STATE_CACHE_TTL seconds at most, so that
+// polling devices don't have to rebuild them every time. A TTL of 0 disables it.
+// Every change is also published, so that devices can wait for it
+
+export interface DeviceState {
+	// A strong ETag, which only changes along with the state
+	etag: string;
+	state: AnyObject;
+}
+
+interface CachedDeviceState extends DeviceState {
+	generation: string;
+}
+
+// Each version of the state endpoint caches its own format of the state
+const getStateKey = (deviceId: number, version: string) =>
+	`device:${deviceId}:state:${version}`;
+// Bumped on every change to the target state of the device, so that a state
+// which was built before a change is never served after it
+const getGenerationKey = (deviceId: number) =>
+	`device:${deviceId}:state:generation`;
+
+const getChangesChannel = (deviceId: number) =>
+	`device:${deviceId}:state:changes`;
+
+const isCacheEnabled = () =>
+	DEVICE_STATE_CACHE_TTL > 0 && getRedisClient().connected;
+
+const changes = new EventEmitter();
+// Every waiting request listens for the changes of its device
+changes.setMaxListeners(0);
+let listening = false;
+
+// Sorts the keys of the objects, so that equal states always serialize the same
+const toCanonical = (value: any): any => {
+	if (_.isArray(value)) {
+		return value.map(toCanonical);
+	}
+	if (_.isPlainObject(value)) {
+		const sorted: AnyObject = {};
+		for (const key of Object.keys(value).sort()) {
+			sorted[key] = toCanonical(value[key]);
+		}
+		return sorted;
+	}
+	return value;
+};
+
+const toDeviceState = (state: AnyObject): DeviceState => {
+	const hash = crypto
+		.createHash('sha1')
+		.update(JSON.stringify(toCanonical(state)))
+		.digest('hex');
+	return { etag: `"${hash}"`, state };
+};
+
+const readCache = (
+	deviceId: number,
+	version: string,
+): Promise<{ cached?: CachedDeviceState; generation: string } | undefined> =>
+	Promise.fromCallback<Array<string | null>>(callback => {
+		getRedisClient().mget(
+			getStateKey(deviceId, version),
+			getGenerationKey(deviceId),
+			callback,
+		);
+	})
+		.then(([cached, generation]) => ({
+			cached: cached != null ? JSON.parse(cached) : undefined,
+			generation: generation || '0',
+		}))
+		.catch(err => {
+			captureException(err, 'Failed to read the cached device state');
+			return undefined;
+		});
+
+const writeCache = (
+	deviceId: number,
+	version: string,
+	cached: CachedDeviceState,
+) => {
+	const generationKey = getGenerationKey(deviceId);
+	getRedisClient()
+		.multi()
+		.set(
+			getStateKey(deviceId, version),
+			JSON.stringify(cached),
+			'EX',
+			DEVICE_STATE_CACHE_TTL,
+		)
+		// Make sure the generation outlives the state, so that it is never reset under it
+		.expire(generationKey, DEVICE_STATE_CACHE_TTL)
+		.exec(err => {
+			if (err) {
+				captureException(err, 'Failed to cache the device state');
+			}
+		});
+};
+
+// Resolves to the target state of the device, only building it if it isn't cached
+export function getDeviceState(
+	deviceId: number,
+	version: string,
+	buildState: () => Promise<AnyObject>,
+): Promise<DeviceState> {
+	if (!isCacheEnabled()) {
+		return buildState().then(toDeviceState);
+	}
+	return readCache(deviceId, version).then(cache => {
+		if (cache == null) {
+			return buildState().then(toDeviceState);
+		}
+		const { cached, generation } = cache;
+		if (cached != null && cached.generation === generation) {
+			return { etag: cached.etag, state: cached.state };
+		}
+		return buildState()
+			.then(toDeviceState)
+			.tap(deviceState => {
+				writeCache(deviceId, version, { ...deviceState, generation });
+			});
+	});
+}
+
+// Invalidates the cached target states of the devices matching the filter and
+// notifies the ones waiting for them to change. Given the transaction of the
+// change, that only happens once it is committed, so that the states cannot be
+// built again from before the change
+export function invalidateDeviceStates(
+	filter: PinejsClientCoreFactory.Filter,
+	tx?: Tx,
+): Promise<void> {
+	if (!getRedisClient().connected) {
+		return Promise.resolve();
+	}
+	return resinApi
+		.get({
+			resource: 'device',
+			passthrough: { req: root, tx },
+			options: {
+				$select: 'id',
+				$filter: filter,
+			},
+		})
+		.then((devices: AnyObject[]) => {
+			if (devices.length === 0) {
+				return;
+			}
+			const invalidate = () => {
+				const multi = getRedisClient().multi();
+				for (const { id } of devices) {
+					if (DEVICE_STATE_CACHE_TTL > 0) {
+						multi.incr(getGenerationKey(id));
+						multi.expire(getGenerationKey(id), DEVICE_STATE_CACHE_TTL);
+					}
+					multi.publish(getChangesChannel(id), '');
+				}
+				multi.exec(err => {
+					if (err) {
+						captureException(err, 'Failed to invalidate the device states');
+					}
+				});
+			};
+			if (tx != null) {
+				tx.on('end', invalidate);
+			} else {
+				invalidate();
+			}
+		})
+		.catch(err => {
+			captureException(err, 'Failed to invalidate the device states');
+		});
+}
+
+// Calls the listener whenever the target state of the device might have changed
+export function subscribeToStateChanges(
+	deviceId: number,
+	listener: () => void,
+) {
+	const subscriber = getRedisSubscriber();
+	if (!listening) {
+		listening = true;
+		subscriber.on('message', (channel: string) => {
+			changes.emit(channel);
+		});
+	}
+	const channel = getChangesChannel(deviceId);
+	if (!changes.listenerCount(channel)) {
+		if (subscriber.connected) {
+			subscriber.subscribe(channel);
+		} else {
+			// The connection is only opened on first use, and commands can't be
+			// queued until it is ready
+			subscriber.once('ready', () => {
+				if (changes.listenerCount(channel)) {
+					subscriber.subscribe(channel);
+				}
+			});
+		}
+	}
+	changes.on(channel, listener);
+}
+
+export function unsubscribeFromStateChanges(
+	deviceId: number,
+	listener: () => void,
+) {
+	const channel = getChangesChannel(deviceId);
+	changes.removeListener(channel, listener);
+	const subscriber = getRedisSubscriber();
+	if (!changes.listenerCount(channel) && subscriber.connected) {
+		subscriber.unsubscribe(channel);
+	}
+}
@@ -0,0 +1,94 @@
+import * as _ from 'lodash';
+
+export type ServiceDiffState =
+	| 'pending'
+	| 'downloading'
+	| 'failed'
+	| 'matching';
+
+export interface ServiceDiff {
+	serviceId: number;
+	imageId: number;
+	state: ServiceDiffState;
+	// As last reported by the device, if it has the image at all
+	status?: string;
+	download_progress?: number | null;
+}
+
+export interface StateDiff {
+	commit: {
+		target?: string;
+		current: string | null;
+		is_matching: boolean;
+	};
+	os_version: string | null;
+	services: Dictionary<ServiceDiff>;
+	summary: { [state in ServiceDiffState]: number };
+}
+
+// The statuses the supervisor reports for the images once their service runs
+const MATCHING_STATUSES = ['Running'];
+const DOWNLOADING_STATUS = 'Downloading';
+// Covers the likes of "Download failed", "Start failed" and "Error"
+export const FAILED_STATUS_REGEX = /fail|error/i;
+
+const getServiceDiffState = (
+	imageInstall: AnyObject | undefined,
+): ServiceDiffState => {
+	if (imageInstall == null) {
+		return 'pending';
+	}
+	const { status } = imageInstall;
+	if (FAILED_STATUS_REGEX.test(status)) {
+		return 'failed';
+	}
+	if (status === DOWNLOADING_STATUS) {
+		return 'downloading';
+	}
+	if (MATCHING_STATUSES.includes(status)) {
+		return 'matching';
+	}
+	return 'pending';
+};
+
+// Compares the v2 target state of the device against what it last reported,
+// with the device expanded with its image installs
+export const getStateDiff = (
+	targetState: AnyObject,
+	device: AnyObject,
+): StateDiff => {
+	// The device runs a single application in v2
+	const app: AnyObject = _.values(targetState.local.apps)[0] || {};
+	const imageInstalls = _.keyBy(
+		device.image_install as AnyObject[],
+		'installs__image.__id',
+	);
+
+	const summary = { pending: 0, downloading: 0, failed: 0, matching: 0 };
+	const services: Dictionary<ServiceDiff> = {};
+	_.each(app.services, (svc: AnyObject, serviceId) => {
+		const imageInstall = imageInstalls[svc.imageId];
+		const state = getServiceDiffState(imageInstall);
+		summary[state]++;
+		services[svc.serviceName] = {
+			serviceId: _.parseInt(serviceId, 10),
+			imageId: svc.imageId,
+			state,
+			status: imageInstall != null ? imageInstall.status : undefined,
+			download_progress:
+				imageInstall != null ? imageInstall.download_progress : undefined,
+		};
+	});
+
+	const currentCommit = device.is_on__commit || null;
+	return {
+		commit: {
+			target: app.commit,
+			current: currentCommit,
+			is_matching: app.commit != null && app.commit === currentCommit,
+		},
+		os_version: device.os_version || null,
+		services,
+		summary,
+	};
+};
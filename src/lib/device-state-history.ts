@@ -0,0 +1,174 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+
+import { DEVICE_STATE_HISTORY_RETENTION_DAYS } from './config';
+import { decodeCursor, encodeCursor } from './device-logs/cursor';
+import { db, sbvrUtils, Tx } from '../platform';
+
+const { BadRequestError } = sbvrUtils;
+
+// Every change to the state of a device, be it reported by the device itself or
+// it going offline, is appended to its history, which is kept for
+// DEVICE_STATE_HISTORY_RETENTION_DAYS days by periodically pruning it. A
+// retention of 0 keeps it forever
+
+// The device fields which are kept track of
+export const HISTORY_FIELDS = [
+	'status',
+	'download_progress',
+	'is_on__commit',
+	'os_version',
+	'os_variant',
+	'supervisor_version',
+	'provisioning_state',
+	'provisioning_progress',
+	'ip_address',
+	'is_online',
+];
+
+// The response header with the cursor of the next page of reports
+export const STATE_HISTORY_CURSOR_HEADER = 'X-State-History-Cursor';
+
+export interface StateReport {
+	createdAt: number;
+	// Only the fields that changed with the report, along with their new values
+	changes: AnyObject;
+}
+
+export interface StateHistoryQuery {
+	since?: number;
+	until?: number;
+	count: number;
+	// The cursor of the previous page, if any
+	cursor?: string;
+}
+
+export interface StateHistoryPage {
+	reports: StateReport[];
+	// Only set if there are older reports
+	cursor?: string;
+}
+
+interface StateReportRow {
+	id: string;
+	'created at': string;
+	changes: AnyObject;
+}
+
+// Records the fields of the values which change the state of each of the
+// devices, given the devices as they were before the change
+export const recordStateChanges = (
+	tx: Tx,
+	devices: AnyObject[],
+	values: AnyObject,
+): Promise<void> => {
+	const deviceIds: number[] = [];
+	const changes: string[] = [];
+	for (const device of devices) {
+		const deviceChanges = _.pickBy(
+			_.pick(values, HISTORY_FIELDS),
+			(value, field) => !_.isEqual(value, device[field]),
+		);
+		if (_.isEmpty(deviceChanges)) {
+			continue;
+		}
+		deviceIds.push(device.id);
+		changes.push(JSON.stringify(deviceChanges));
+	}
+	if (deviceIds.length === 0) {
+		return Promise.resolve();
+	}
+	// The reports are passed as arrays, so that any number of devices can be
+	// changed at once
+	return Promise.resolve(
+		tx.executeSql(
+			`
+INSERT INTO "device state report" ("device", "created at", "changes")
+SELECT r."device", $1::BIGINT, r."changes"
+FROM UNNEST($2::INTEGER[], $3::JSONB[]) AS r("device", "changes")`,
+			[Date.now(), deviceIds, changes],
+		),
+	).return();
+};
+
+// Deletes the state reports which are older than the retention, resolving to
+// how many were deleted
+export const pruneStateHistory = (): Promise<number> => {
+	if (DEVICE_STATE_HISTORY_RETENTION_DAYS <= 0) {
+		return Promise.resolve(0);
+	}
+	return Promise.resolve(
+		db.executeSql(
+			`
+DELETE FROM "device state report"
+WHERE "created at" < $1`,
+			[Date.now() - DEVICE_STATE_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000],
+		),
+	).then(({ rowsAffected }) => rowsAffected);
+};
+
+const decodeHistoryCursor = (
+	cursor: string,
+): { createdAt: number; id: string } => {
+	const { createdAt, id } = decodeCursor(cursor);
+	if (!_.isNumber(createdAt) || !_.isString(id) || !/^[0-9]+$/.test(id)) {
+		throw new BadRequestError('Invalid cursor');
+	}
+	return { createdAt, id };
+};
+
+// Resolves to a page of the state reports of the device, the newest first.
+// Reports can share the same time, so pages are split by id as well
+export const getStateHistory = (
+	deviceId: number,
+	query: StateHistoryQuery,
+): Promise<StateHistoryPage> => {
+	const bindings: any[] = [deviceId];
+	const where = [`"device" = $1`];
+	if (query.since != null) {
+		bindings.push(query.since);
+		where.push(`"created at" >= $${bindings.length}`);
+	}
+	if (query.until != null) {
+		bindings.push(query.until);
+		where.push(`"created at" < $${bindings.length}`);
+	}
+	if (query.cursor != null) {
+		const { createdAt, id } = decodeHistoryCursor(query.cursor);
+		bindings.push(createdAt, id);
+		where.push(
+			`("created at", "id") < ($${bindings.length - 1}, $${bindings.length})`,
+		);
+	}
+	// Fetch one more report than asked for, to tell whether there are more
+	bindings.push(query.count + 1);
+	return Promise.resolve(
+		db.executeSql(
+			`
+SELECT "id", "created at", "changes"
+FROM "device state report"
+WHERE ${where.join('\nAND ')}
+ORDER BY "created at" DESC, "id" DESC
+LIMIT $${bindings.length}`,
+			bindings,
+		),
+	).then(({ rows }) => {
+		const page = (rows as StateReportRow[]).slice(0, query.count);
+		const reports = page.map(row => ({
+			// BIGINT columns are returned as strings by the driver
+			createdAt: _.toNumber(row['created at']),
+			changes: row.changes,
+		}));
+		const last = _.last(page);
+		if (rows.length <= query.count || last == null) {
+			return { reports };
+		}
+		return {
+			reports,
+			cursor: encodeCursor({
+				createdAt: _.toNumber(last['created at']),
+				id: last.id,
+			}),
+		};
+	});
+};
@@ -0,0 +1,137 @@
+import * as _ from 'lodash';
+import * as Ajv from 'ajv';
+import { JSONSchema6, JSONSchema6TypeName } from 'json-schema';
+import draft06MetaSchema = require('ajv/lib/refs/json-schema-draft-06.json');
+
+// Bumped on every change to the schema, and sent along with the errors of the
+// reports that don't match it
+export const STATE_PATCH_SCHEMA_VERSION = 1;
+
+// The keys of the apps, services and images, which are all ids
+const ID_PATTERN = '^[0-9]+$';
+
+export interface ValidationError {
+	property: string;
+	message: string;
+}
+
+const nullable = (
+	type: JSONSchema6TypeName,
+	schema: JSONSchema6 = {},
+): JSONSchema6 => ({
+	...schema,
+	type: [type, 'null'],
+});
+
+const byId = (schema: JSONSchema6): JSONSchema6 => ({
+	type: 'object',
+	patternProperties: { [ID_PATTERN]: schema },
+	additionalProperties: false,
+});
+
+const progress = nullable('integer', { minimum: 0, maximum: 100 });
+
+// The status of an image of a service the device runs, keyed by the image id
+const imageStatus: JSONSchema6 = {
+	type: 'object',
+	required: ['releaseId', 'status'],
+	properties: {
+		releaseId: { type: 'integer' },
+		status: { type: 'string' },
+		download_progress: progress,
+	},
+};
+
+// The status of an image a gateway downloads for its dependent devices
+const dependentImageStatus: JSONSchema6 = {
+	type: 'object',
+	required: ['status'],
+	properties: {
+		status: { type: 'string' },
+		download_progress: progress,
+	},
+};
+
+// Supervisors may report more than what is stored, so only the fields we know
+// about are checked
+export const stateV2PatchSchema: JSONSchema6 = {
+	$schema: 'http://json-schema.org/draft-06/schema#',
+	type: 'object',
+	properties: {
+		local: {
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				device_name: { type: 'string' },
+				status: nullable('string'),
+				is_online: { type: 'boolean' },
+				is_on__commit: nullable('string'),
+				is_managed_by__device: nullable('integer'),
+				should_be_running__release: nullable('integer'),
+				note: nullable('string'),
+				os_version: nullable('string'),
+				os_variant: nullable('string'),
+				supervisor_version: nullable('string'),
+				provisioning_progress: progress,
+				provisioning_state: nullable('string'),
+				ip_address: nullable('string'),
+				download_progress: progress,
+				api_port: nullable('integer', { minimum: 0, maximum: 65535 }),
+				api_secret: nullable('string'),
+				logs_channel: nullable('string'),
+				cpu_usage: nullable('number', { minimum: 0, maximum: 100 }),
+				cpu_temp: nullable('number'),
+				memory_usage: nullable('number', { minimum: 0 }),
+				memory_total: nullable('number', { minimum: 0 }),
+				storage_usage: nullable('number', { minimum: 0 }),
+				storage_total: nullable('number', { minimum: 0 }),
+				uptime: nullable('number', { minimum: 0 }),
+				apps: byId({
+					type: 'object',
+					properties: {
+						services: byId(imageStatus),
+					},
+				}),
+			},
+		},
+		dependent: {
+			type: 'object',
+			properties: {
+				apps: byId({
+					type: 'object',
+					properties: {
+						images: byId(dependentImageStatus),
+					},
+				}),
+			},
+		},
+	},
+};
+
+const ajv = new Ajv({ allErrors: true, jsonPointers: true });
+ajv.addMetaSchema(draft06MetaSchema);
+const validateSchema = ajv.compile(stateV2PatchSchema);
+
+// The errors of missing and unknown properties are reported against the object
+// holding them, so they are moved to the property itself
+const toValidationError = ({
+	dataPath,
+	params,
+	message = 'is invalid',
+}: Ajv.ErrorObject): ValidationError => {
+	const path = _.compact(dataPath.split('/'));
+	if ('missingProperty' in params) {
+		path.push(params.missingProperty);
+	} else if ('additionalProperty' in params) {
+		path.push(params.additionalProperty);
+	}
+	return { property: path.join('.'), message };
+};
+
+// Resolves to the field level errors of the v2 state report, if any
+export const validateStateV2Patch = (body: any): ValidationError[] => {
+	if (validateSchema(body)) {
+		return [];
+	}
+	return _.map(validateSchema.errors, toValidationError);
+};
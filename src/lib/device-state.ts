@@ -4,6 +4,7 @@ import * as semver from 'resin-semver';
 
 import { DEFAULT_SUPERVISOR_POLL_INTERVAL } from './env-vars';
 
+import { PinejsClientCoreFactory } from 'pinejs-client-core';
 import { PinejsClient, resinApi } from '../platform';
 
 // Set RESIN_SUPERVISOR_POLL_INTERVAL to a minimum of 10 minutes
@@ -17,7 +18,25 @@ export const setMinPollInterval = (config: AnyObject): void => {
 		'' + Math.max(pollInterval, DEFAULT_SUPERVISOR_POLL_INTERVAL);
 };
 
-export const getReleaseForDevice = (
+// Filters the devices which run the applications matching the filter, be it as
+// the application they belong to or any of the other ones they are set to run
+export const runsApplicationFilter = (
+	applicationFilter: number | AnyObject,
+): PinejsClientCoreFactory.Filter => ({
+	$or: [
+		{ belongs_to__application: applicationFilter },
+		{
+			device_application: {
+				$any: {
+					$alias: 'ra',
+					$expr: { ra: { runs__application: applicationFilter } },
+				},
+			},
+		},
+	],
+});
+
+const getTargetRelease = (
 	api: PinejsClient,
 	device: AnyObject,
 ): Promise<AnyObject | undefined> => {
@@ -29,6 +48,37 @@ export const getReleaseForDevice = (
 	}
 };
 
+// Devices which cannot apply updates right now are kept on the release they
+// are on already, if it is still around, rather than their target one
+export const keepCurrentRelease = (
+	api: PinejsClient,
+	appId: number,
+	device: AnyObject,
+	canApplyUpdates: boolean,
+	getTarget: () => Promise<AnyObject | undefined>,
+): Promise<AnyObject | undefined> => {
+	if (canApplyUpdates || device.is_on__commit == null) {
+		return getTarget();
+	}
+	return releaseFromApp(api, {
+		id: appId,
+		commit: device.is_on__commit,
+	}).then(release => release || getTarget());
+};
+
+export const getReleaseForDevice = (
+	api: PinejsClient,
+	device: AnyObject,
+	canApplyUpdates = true,
+): Promise<AnyObject | undefined> =>
+	keepCurrentRelease(
+		api,
+		device.belongs_to__application[0].id,
+		device,
+		canApplyUpdates,
+		() => getTargetRelease(api, device),
+	);
+
 const releaseQuery = resinApi.prepare<{ commit: string; appId: number }>({
 	resource: 'release',
 	options: {
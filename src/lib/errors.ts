@@ -1,10 +1,20 @@
 import { TypedError } from 'typed-error';
 import { sbvrUtils } from '../platform';
 
-export const { NotFoundError } = sbvrUtils;
+export const { HttpError, NotFoundError } = sbvrUtils;
 
 export class NoDevicesFoundError extends NotFoundError {}
 
+export class TooManyRequestsError extends HttpError {
+	// In seconds, for the Retry-After header
+	public retryAfter: number;
+
+	constructor(message: string, retryAfter: number) {
+		super(429, message);
+		this.retryAfter = retryAfter;
+	}
+}
+
 export class InaccessibleAppError extends TypedError {
 	constructor(
 		message = "Application doesn't exist or you have no access to it.",
@@ -0,0 +1,197 @@
+import * as _ from 'lodash';
+import { sbvrUtils } from '../platform';
+
+const { BadRequestError } = sbvrUtils;
+
+// Maintenance windows are cron expressions of the minutes at which devices may
+// apply updates, eg. `* 0-5 * * 1-5` for before 6am on weekdays, read in the
+// timezone of the device or its application, or UTC if neither has one
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+interface FieldRange {
+	min: number;
+	max: number;
+}
+
+// minute, hour, day of month, month, day of week (with both 0 and 7 for Sunday)
+const FIELD_RANGES: FieldRange[] = [
+	{ min: 0, max: 59 },
+	{ min: 0, max: 23 },
+	{ min: 1, max: 31 },
+	{ min: 1, max: 12 },
+	{ min: 0, max: 7 },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface Schedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// As in cron, when both days are restricted either of them can match
+	isDayOfMonthRestricted: boolean;
+	isDayOfWeekRestricted: boolean;
+}
+
+const parseNumber = (value: string, { min, max }: FieldRange): number => {
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`Invalid value: ${value}`);
+	}
+	const n = parseInt(value, 10);
+	if (n < min || n > max) {
+		throw new Error(`Value out of range: ${value}`);
+	}
+	return n;
+};
+
+const parseField = (field: string, range: FieldRange): Set<number> => {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const [rangePart, stepPart, ...rest] = part.split('/');
+		if (rest.length > 0) {
+			throw new Error(`Invalid step: ${part}`);
+		}
+		const step = stepPart != null ? parseNumber(stepPart, range) : 1;
+		if (step === 0) {
+			throw new Error(`Invalid step: ${part}`);
+		}
+		let start: number;
+		let end: number;
+		if (rangePart === '*') {
+			start = range.min;
+			end = range.max;
+		} else {
+			const [from, to, ...extra] = rangePart.split('-');
+			if (extra.length > 0) {
+				throw new Error(`Invalid range: ${part}`);
+			}
+			start = parseNumber(from, range);
+			end = to != null ? parseNumber(to, range) : start;
+			if (end < start) {
+				throw new Error(`Invalid range: ${part}`);
+			}
+		}
+		for (let n = start; n <= end; n += step) {
+			values.add(n);
+		}
+	}
+	return values;
+};
+
+const parseSchedule = (window: string): Schedule => {
+	const fields = window.trim().split(/\s+/);
+	if (fields.length !== FIELD_RANGES.length) {
+		throw new Error('Expected 5 fields');
+	}
+	const values = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = values;
+	if (daysOfWeek.has(7)) {
+		daysOfWeek.add(0);
+	}
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		isDayOfMonthRestricted: fields[2] !== '*',
+		isDayOfWeekRestricted: fields[4] !== '*',
+	};
+};
+
+const getFormatter = _.memoize(
+	(timezone: string) =>
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hour12: false,
+			weekday: 'short',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+		}),
+);
+
+const isValidTimezone = (timezone: string): boolean => {
+	try {
+		getFormatter(timezone);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+// Validates the maintenance window and timezone, if any, of the values to set
+export const checkMaintenanceWindow = (values: AnyObject) => {
+	const { maintenance_window, maintenance_timezone } = values;
+	if (maintenance_window != null) {
+		try {
+			parseSchedule(maintenance_window);
+		} catch (err) {
+			throw new BadRequestError(
+				`Invalid maintenance window: ${maintenance_window} (${err.message})`,
+			);
+		}
+	}
+	if (maintenance_timezone != null && !isValidTimezone(maintenance_timezone)) {
+		throw new BadRequestError(
+			`Invalid maintenance timezone: ${maintenance_timezone}`,
+		);
+	}
+};
+
+const isWithinSchedule = (
+	schedule: Schedule,
+	timezone: string,
+	date: Date,
+): boolean => {
+	const parts: Dictionary<string> = {};
+	for (const { type, value } of getFormatter(timezone).formatToParts(date)) {
+		parts[type] = value;
+	}
+	// Some platforms format midnight as hour 24
+	const hour = parseInt(parts.hour, 10) % 24;
+	const dayOfWeek = WEEKDAYS.indexOf(parts.weekday);
+	const dayOfMonth = parseInt(parts.day, 10);
+
+	const dayOfMonthMatches = schedule.daysOfMonth.has(dayOfMonth);
+	const dayOfWeekMatches = schedule.daysOfWeek.has(dayOfWeek);
+	const dayMatches =
+		schedule.isDayOfMonthRestricted && schedule.isDayOfWeekRestricted
+			? dayOfMonthMatches || dayOfWeekMatches
+			: dayOfMonthMatches && dayOfWeekMatches;
+
+	return (
+		dayMatches &&
+		schedule.minutes.has(parseInt(parts.minute, 10)) &&
+		schedule.hours.has(hour) &&
+		schedule.months.has(parseInt(parts.month, 10))
+	);
+};
+
+// Whether a device may apply updates at the given time, with the maintenance
+// window and timezone of the device taking precedence over the application ones
+export const canApplyUpdates = (
+	device: AnyObject,
+	app: AnyObject | undefined,
+	date = new Date(),
+): boolean => {
+	const window: string | null =
+		device.maintenance_window || _.get(app, 'maintenance_window');
+	if (window == null) {
+		return true;
+	}
+	const timezone: string =
+		device.maintenance_timezone ||
+		_.get(app, 'maintenance_timezone') ||
+		DEFAULT_TIMEZONE;
+	try {
+		return isWithinSchedule(parseSchedule(window), timezone, date);
+	} catch {
+		// Windows are validated when set, so never hold back updates for a bad one
+		return true;
+	}
+};
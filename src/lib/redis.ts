@@ -0,0 +1,29 @@
+import * as _ from 'lodash';
+import * as redis from 'redis';
+import { captureException } from '../platform/errors';
+import { REDIS_HOST, REDIS_PORT } from './config';
+
+const createClient = () => {
+	const client = redis.createClient({
+		host: REDIS_HOST,
+		port: REDIS_PORT,
+		retry_strategy: () => 500,
+		enable_offline_queue: false,
+	});
+	// If not handled will crash the process
+	client.on(
+		'error',
+		_.throttle((err: Error) => {
+			captureException(err, 'Redis error');
+		}, 300e3),
+	);
+	return client;
+};
+
+// A shared connection for bookkeeping, like the device logs usage and the
+// cached device states, which is only opened on first use
+export const getRedisClient = _.once(createClient);
+
+// A shared connection for PubSub, as it goes into "subscriber mode" and cannot
+// be used for commands
+export const getRedisSubscriber = _.once(createClient);
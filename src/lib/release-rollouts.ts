@@ -0,0 +1,357 @@
+import * as Promise from 'bluebird';
+import * as _ from 'lodash';
+import { PinejsClientCoreFactory } from 'pinejs-client-core';
+
+import { FAILED_STATUS_REGEX } from './device-state-diff';
+import { db, PinejsClient, resinApi, root, Tx } from '../platform';
+import { captureException } from '../platform/errors';
+
+// A rollout is 'pending' until its release is successful, then 'running' until
+// it is either 'halted' by too many failures or 'completed'
+export const ROLLOUT_STATUSES = ['pending', 'running', 'halted', 'completed'];
+
+export interface ReleaseRollout {
+	id: number;
+	rolls_out__release: { __id: number };
+	stage_percentage: number;
+	current_stage: number;
+	success_threshold: number;
+	failure_threshold: number;
+	target_tag_key: string | null;
+	target_tag_value: string | null;
+	status: string;
+}
+
+interface RolloutRelease {
+	id: number;
+	commit: string;
+	status: string;
+	belongs_to__application: { __id: number };
+}
+
+const rolloutSelect = [
+	'id',
+	'rolls_out__release',
+	'stage_percentage',
+	'current_stage',
+	'success_threshold',
+	'failure_threshold',
+	'target_tag_key',
+	'target_tag_value',
+	'status',
+];
+
+const getStagePercentage = (
+	rollout: Pick<ReleaseRollout, 'stage_percentage'>,
+	stage: number,
+) => Math.min(stage * rollout.stage_percentage, 100);
+
+// How many of the target devices are pinned to the release by the given stage,
+// rounding up so that even the first stage covers at least one device
+export const getStageSize = (
+	rollout: Pick<ReleaseRollout, 'stage_percentage'>,
+	stage: number,
+	deviceCount: number,
+): number =>
+	Math.ceil((deviceCount * getStagePercentage(rollout, stage)) / 100);
+
+// Whether the stage covers all of the target devices
+export const isLastStage = (
+	rollout: Pick<ReleaseRollout, 'stage_percentage'>,
+	stage: number,
+): boolean => getStagePercentage(rollout, stage) >= 100;
+
+const getRelease = (
+	api: PinejsClient,
+	rollout: ReleaseRollout,
+): Promise<RolloutRelease> =>
+	api.get({
+		resource: 'release',
+		id: rollout.rolls_out__release.__id,
+		options: {
+			$select: ['id', 'commit', 'status', 'belongs_to__application'],
+		},
+	}) as Promise<RolloutRelease>;
+
+// The devices of the application that the rollout is for, leaving out the ones
+// which have been pinned to any other release
+const getTargetDevicesFilter = (
+	rollout: ReleaseRollout,
+	release: RolloutRelease,
+): PinejsClientCoreFactory.Filter => {
+	const filter: PinejsClientCoreFactory.Filter = {
+		belongs_to__application: release.belongs_to__application.__id,
+		$or: [
+			{ should_be_running__release: null },
+			{ should_be_running__release: release.id },
+		],
+	};
+	if (rollout.target_tag_key != null) {
+		const tagFilter: AnyObject = { tag_key: rollout.target_tag_key };
+		if (rollout.target_tag_value != null) {
+			tagFilter.value = rollout.target_tag_value;
+		}
+		filter.device_tag = {
+			$any: {
+				$alias: 'dt',
+				$expr: { dt: tagFilter },
+			},
+		};
+	}
+	return filter;
+};
+
+// Pins the devices of the next stage to the release
+const advanceRollout = (
+	api: PinejsClient,
+	rollout: ReleaseRollout,
+	release: RolloutRelease,
+): Promise<void> => {
+	const stage = rollout.current_stage + 1;
+	return api
+		.get({
+			resource: 'device',
+			options: {
+				$select: ['id', 'should_be_running__release'],
+				$filter: getTargetDevicesFilter(rollout, release),
+				// Always pick the devices in the same order, so that evaluating the
+				// rollout more than once for a stage doesn't pin any more of them
+				$orderby: 'id asc',
+			},
+		})
+		.then((devices: AnyObject[]) => {
+			const [pinned, unpinned] = _.partition(
+				devices,
+				device => device.should_be_running__release != null,
+			);
+			const stageSize = getStageSize(rollout, stage, devices.length);
+			const deviceIds = _.map(
+				_.take(unpinned, stageSize - pinned.length),
+				'id',
+			);
+			if (deviceIds.length === 0) {
+				return;
+			}
+			return api
+				.patch({
+					resource: 'device',
+					options: {
+						$filter: { id: { $in: deviceIds } },
+					},
+					body: {
+						should_be_running__release: release.id,
+					},
+				})
+				.return();
+		})
+		.then(() =>
+			api.patch({
+				resource: 'release_rollout',
+				id: rollout.id,
+				body: {
+					current_stage: stage,
+					status: 'running',
+				},
+			}),
+		)
+		.return();
+};
+
+// Moves the whole application to the release, unless the rollout was only for
+// the tagged devices, which are left pinned to it
+const completeRollout = (
+	api: PinejsClient,
+	rollout: ReleaseRollout,
+	release: RolloutRelease,
+): Promise<void> =>
+	Promise.try(() => {
+		if (rollout.target_tag_key != null) {
+			return;
+		}
+		const appId = release.belongs_to__application.__id;
+		return api
+			.get({
+				resource: 'application',
+				id: appId,
+				options: {
+					$select: ['should_track_latest_release'],
+				},
+			})
+			.then((app: AnyObject) => {
+				// Devices only follow the release once they are unpinned if the
+				// application tracks its latest release
+				if (app == null || !app.should_track_latest_release) {
+					return;
+				}
+				return api
+					.patch({
+						resource: 'application',
+						id: appId,
+						body: {
+							commit: release.commit,
+						},
+					})
+					.then(() =>
+						api.patch({
+							resource: 'device',
+							options: {
+								$filter: {
+									belongs_to__application: appId,
+									should_be_running__release: release.id,
+								},
+							},
+							body: {
+								should_be_running__release: null,
+							},
+						}),
+					)
+					.return();
+			});
+	})
+		.then(() =>
+			api.patch({
+				resource: 'release_rollout',
+				id: rollout.id,
+				body: {
+					status: 'completed',
+				},
+			}),
+		)
+		.return();
+
+// Advances the rollout once enough of the devices of the current stage run the
+// release, or halts it once too many of them fail to
+const evaluateRollout = (
+	api: PinejsClient,
+	rollout: ReleaseRollout,
+	release: RolloutRelease,
+): Promise<void> =>
+	api
+		.get({
+			resource: 'device',
+			options: {
+				$select: ['id', 'is_on__commit'],
+				$filter: {
+					belongs_to__application: release.belongs_to__application.__id,
+					should_be_running__release: release.id,
+				},
+				$expand: {
+					image_install: {
+						$select: ['status'],
+						$filter: {
+							is_provided_by__release: release.id,
+							status: { $ne: 'deleted' },
+						},
+					},
+				},
+			},
+		})
+		.then((devices: AnyObject[]) => {
+			const [failed, succeeding] = _.partition(devices, device =>
+				_.some(device.image_install, ({ status }) =>
+					FAILED_STATUS_REGEX.test(status),
+				),
+			);
+			const succeeded = succeeding.filter(
+				device => device.is_on__commit === release.commit,
+			);
+			// Without any devices in the stage there is nothing to wait for
+			const total = devices.length;
+			if (
+				total > 0 &&
+				failed.length * 100 >= rollout.failure_threshold * total
+			) {
+				return api
+					.patch({
+						resource: 'release_rollout',
+						id: rollout.id,
+						body: {
+							status: 'halted',
+						},
+					})
+					.return();
+			}
+			if (
+				total > 0 &&
+				succeeded.length * 100 < rollout.success_threshold * total
+			) {
+				return;
+			}
+			if (isLastStage(rollout, rollout.current_stage)) {
+				return completeRollout(api, rollout, release);
+			}
+			return advanceRollout(api, rollout, release);
+		});
+
+export const getRollouts = (
+	api: PinejsClient,
+	filter: PinejsClientCoreFactory.Filter,
+): Promise<ReleaseRollout[]> =>
+	api.get({
+		resource: 'release_rollout',
+		options: {
+			$select: rolloutSelect,
+			$filter: filter,
+		},
+	}) as Promise<ReleaseRollout[]>;
+
+// Starts the rollout with its first stage, or carries on with the current one,
+// as long as its release is successful
+export const runRollout = (
+	api: PinejsClient,
+	rollout: ReleaseRollout,
+): Promise<void> =>
+	getRelease(api, rollout).then(release => {
+		if (release == null || release.status !== 'success') {
+			return;
+		}
+		if (rollout.current_stage === 0) {
+			return advanceRollout(api, rollout, release);
+		}
+		return evaluateRollout(api, rollout, release);
+	});
+
+// Evaluates the running rollouts of the releases that the devices are pinned to,
+// as they report their progress. This happens once the transaction of the report
+// is committed, so that the report neither waits for nor fails with it
+export const evaluateDeviceRollouts = (tx: Tx, deviceIds: number[]) => {
+	tx.on('end', () => {
+		db.transaction(rolloutTx =>
+			evaluateRollouts(
+				resinApi.clone({ passthrough: { tx: rolloutTx, req: root } }),
+				deviceIds,
+			),
+		).catch(err => {
+			captureException(err, 'Failed to evaluate the release rollouts');
+		});
+	});
+};
+
+const evaluateRollouts = (
+	api: PinejsClient,
+	deviceIds: number[],
+): Promise<void> =>
+	getRollouts(api, {
+		status: 'running',
+		rolls_out__release: {
+			$any: {
+				$alias: 'r',
+				$expr: {
+					r: {
+						should_be_running_on__device: {
+							$any: {
+								$alias: 'd',
+								$expr: { d: { id: { $in: deviceIds } } },
+							},
+						},
+					},
+				},
+			},
+		},
+	})
+		.each(rollout =>
+			getRelease(api, rollout).then(release =>
+				evaluateRollout(api, rollout, release),
+			),
+		)
+		.return();
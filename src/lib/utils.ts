@@ -1,6 +1,9 @@
 import * as _ from 'lodash';
 import * as ipaddr from 'ipaddr.js';
 import { Request } from 'express';
+import { sbvrUtils } from '../platform';
+
+const { BadRequestError } = sbvrUtils;
 
 export const isValidInteger = (num: any): num is number => {
 	const n = checkInt(num);
@@ -18,6 +21,21 @@ export const checkInt = (num?: string): number | false => {
 	return n;
 };
 
+// Parses the query parameter as milliseconds since the epoch, if given
+export const getTimestampParam = (
+	req: Request,
+	name: string,
+): number | undefined => {
+	if (req.query[name] == null) {
+		return;
+	}
+	const timestamp = checkInt(req.query[name]);
+	if (timestamp === false || timestamp < 0) {
+		throw new BadRequestError(`Invalid '${name}' parameter`);
+	}
+	return timestamp;
+};
+
 export const getIP = (req: Request): string | undefined =>
 	req.ip ||
 	(req as any)._remoteAddress ||
@@ -0,0 +1,16 @@
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "logs backend" VARCHAR(255) NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "logs backend" VARCHAR(255) NULL;
+
+CREATE TABLE IF NOT EXISTS "device log" (
+	"id" BIGSERIAL NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"created at" BIGINT NOT NULL,
+	"timestamp" BIGINT NOT NULL,
+	"is system" BOOLEAN DEFAULT FALSE NOT NULL,
+	"is stderr" BOOLEAN DEFAULT FALSE NOT NULL,
+	"service id" INTEGER NULL,
+	"message" TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_log_device_created_at_idx"
+ON "device log" ("device", "created at");
@@ -0,0 +1,2 @@
+CREATE INDEX IF NOT EXISTS "device_log_device_timestamp_idx"
+ON "device log" ("device", "timestamp");
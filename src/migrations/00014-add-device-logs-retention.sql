@@ -0,0 +1,4 @@
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "logs retention limit" INTEGER NULL;
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "logs retention age" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "logs retention limit" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "logs retention age" INTEGER NULL;
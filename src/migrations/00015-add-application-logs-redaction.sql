@@ -0,0 +1 @@
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "should redact logs" INTEGER DEFAULT 0 NOT NULL;
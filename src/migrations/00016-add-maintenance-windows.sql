@@ -0,0 +1,4 @@
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "maintenance window" VARCHAR(255) NULL;
+ALTER TABLE "application" ADD COLUMN IF NOT EXISTS "maintenance timezone" VARCHAR(255) NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "maintenance window" VARCHAR(255) NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "maintenance timezone" VARCHAR(255) NULL;
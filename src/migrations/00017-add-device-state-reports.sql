@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "device state report" (
+	"id" BIGSERIAL NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"created at" BIGINT NOT NULL,
+	"changes" JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_state_report_device_created_at_id_idx"
+ON "device state report" ("device", "created at", "id");
@@ -0,0 +1,20 @@
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "cpu usage" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "cpu temp" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "memory usage" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "memory total" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "storage usage" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "storage total" INTEGER NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "uptime" INTEGER NULL;
+
+CREATE TABLE IF NOT EXISTS "device metric" (
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"timestamp" BIGINT NOT NULL,
+	"cpu usage" INTEGER NULL,
+	"cpu temp" INTEGER NULL,
+	"memory usage" INTEGER NULL,
+	"memory total" INTEGER NULL,
+	"storage usage" INTEGER NULL,
+	"storage total" INTEGER NULL,
+	"uptime" INTEGER NULL,
+	PRIMARY KEY ("device", "timestamp")
+);
@@ -0,0 +1,7 @@
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "serial number" VARCHAR(255) NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "claim code" VARCHAR(255) NULL;
+ALTER TABLE "device" ADD COLUMN IF NOT EXISTS "claim expiry date" TIMESTAMP NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "device_claim_code_idx"
+ON "device" ("claim code")
+WHERE "claim code" IS NOT NULL;
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "device tombstone" (
+	"uuid" VARCHAR(255) NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL,
+	"application" INTEGER NULL,
+	"decommissioned at" BIGINT NOT NULL,
+	"decommissioned by" INTEGER NULL,
+	"reason" TEXT NULL,
+	"revoked api keys" INTEGER NOT NULL,
+	"purge status" VARCHAR(255) NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "device api key rotation" (
+	"device" INTEGER NOT NULL PRIMARY KEY REFERENCES "device" ("id") ON DELETE CASCADE,
+	"old api key" INTEGER NOT NULL REFERENCES "api key" ("id") ON DELETE CASCADE,
+	"new api key" INTEGER NOT NULL REFERENCES "api key" ("id") ON DELETE CASCADE,
+	"expires at" BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_expires_at_idx"
+ON "device api key rotation" ("expires at");
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_old_api_key_idx"
+ON "device api key rotation" ("old api key");
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_new_api_key_idx"
+ON "device api key rotation" ("new api key");
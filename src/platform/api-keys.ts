@@ -20,7 +20,7 @@ interface InternalApiKeyOptions extends ApiKeyOptions {
 const $createApiKey = (
 	actorType: string,
 	roleName: string,
-	req: Request,
+	req: sbvrUtils.PermissionReq,
 	actorTypeID: number,
 	{ apiKey, tx, name, description }: InternalApiKeyOptions,
 ): Promise<string> =>
@@ -103,7 +103,7 @@ export const createApiKey = Promise.method(
 	(
 		actorType: string,
 		roleName: string,
-		req: Request,
+		req: sbvrUtils.PermissionReq,
 		actorTypeID: number,
 		options: ApiKeyOptions = {},
 	) => {
@@ -134,7 +134,11 @@ export const createApiKey = Promise.method(
 );
 
 export interface PartialCreateKey {
-	(req: Request, actorTypeID: number, options?: ApiKeyOptions): Promise<string>;
+	(
+		req: sbvrUtils.PermissionReq,
+		actorTypeID: number,
+		options?: ApiKeyOptions,
+	): Promise<string>;
 }
 
 const isRequest = (req: sbvrUtils.HookReq | Request): req is Request =>
@@ -1,8 +1,11 @@
 import { reqHasPermission, getUser } from './auth';
 import { retrieveAPIKey } from './api-keys';
 import { RequestHandler } from 'express';
+import { handleHttpErrors } from './errors';
 
 import { resinApi, root } from './index';
+import { checkDeviceApiKeyRotation } from '../lib/device-api-key-rotation';
+import { getTombstone } from '../lib/device-decommissioning';
 
 export const authenticated: RequestHandler = (req, res, next) =>
 	getUser(req, false)
@@ -28,9 +31,20 @@ export const authorized: RequestHandler = (req, res, next) =>
 			res.sendStatus(401);
 		});
 
-export const apiKeyMiddleware: RequestHandler = (req, _res, next) =>
+export const apiKeyMiddleware: RequestHandler = (req, res, next) =>
 	// Note: this won't reply with 401 if there's no api key
-	retrieveAPIKey(req).asCallback(next);
+	retrieveAPIKey(req)
+		.then(() => checkDeviceApiKeyRotation(req))
+		.then(() => {
+			next();
+			return null;
+		})
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			next(err);
+		});
 
 export const permissionRequired = (permission: string): RequestHandler => (
 	req,
@@ -65,8 +79,17 @@ export const gracefullyDenyDeletedDevices: RequestHandler = (
 
 	return checkDeviceExistsQuery({ uuid }).then((devices: number) => {
 		if (devices === 0) {
-			res.sendStatus(returnCode);
-			return;
+			// Decommissioned devices are told so, rather than just ignored
+			return getTombstone(uuid).then(tombstone => {
+				if (tombstone != null) {
+					res.status(410).json({
+						message: 'Device has been decommissioned',
+						decommissioned_at: tombstone.decommissioned_at,
+					});
+					return;
+				}
+				res.sendStatus(returnCode);
+			});
 		}
 
 		next();
@@ -63,8 +63,79 @@ ON "device" ("uuid" text_pattern_ops);
 CREATE INDEX IF NOT EXISTS "device_is_managed_by_service_instance_idx"
 ON "device" ("is managed by-service instance");
 
+CREATE UNIQUE INDEX IF NOT EXISTS "device_claim_code_idx"
+ON "device" ("claim code")
+WHERE "claim code" IS NOT NULL;
+
 CREATE INDEX IF NOT EXISTS "ipr_ipr_idx"
 ON "image-is part of-release" ("is part of-release");
 
 CREATE INDEX IF NOT EXISTS "ii_ipr_idx"
 ON "image install" ("is provided by-release");
+
+CREATE TABLE IF NOT EXISTS "device log" (
+	"id" BIGSERIAL NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"created at" BIGINT NOT NULL,
+	"timestamp" BIGINT NOT NULL,
+	"is system" BOOLEAN DEFAULT FALSE NOT NULL,
+	"is stderr" BOOLEAN DEFAULT FALSE NOT NULL,
+	"service id" INTEGER NULL,
+	"message" TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_log_device_created_at_idx"
+ON "device log" ("device", "created at");
+
+CREATE INDEX IF NOT EXISTS "device_log_device_timestamp_idx"
+ON "device log" ("device", "timestamp");
+
+CREATE TABLE IF NOT EXISTS "device state report" (
+	"id" BIGSERIAL NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"created at" BIGINT NOT NULL,
+	"changes" JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_state_report_device_created_at_id_idx"
+ON "device state report" ("device", "created at", "id");
+
+CREATE TABLE IF NOT EXISTS "device metric" (
+	"device" INTEGER NOT NULL REFERENCES "device" ("id") ON DELETE CASCADE,
+	"timestamp" BIGINT NOT NULL,
+	"cpu usage" INTEGER NULL,
+	"cpu temp" INTEGER NULL,
+	"memory usage" INTEGER NULL,
+	"memory total" INTEGER NULL,
+	"storage usage" INTEGER NULL,
+	"storage total" INTEGER NULL,
+	"uptime" INTEGER NULL,
+	PRIMARY KEY ("device", "timestamp")
+);
+
+CREATE TABLE IF NOT EXISTS "device tombstone" (
+	"uuid" VARCHAR(255) NOT NULL PRIMARY KEY,
+	"device" INTEGER NOT NULL,
+	"application" INTEGER NULL,
+	"decommissioned at" BIGINT NOT NULL,
+	"decommissioned by" INTEGER NULL,
+	"reason" TEXT NULL,
+	"revoked api keys" INTEGER NOT NULL,
+	"purge status" VARCHAR(255) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "device api key rotation" (
+	"device" INTEGER NOT NULL PRIMARY KEY REFERENCES "device" ("id") ON DELETE CASCADE,
+	"old api key" INTEGER NOT NULL REFERENCES "api key" ("id") ON DELETE CASCADE,
+	"new api key" INTEGER NOT NULL REFERENCES "api key" ("id") ON DELETE CASCADE,
+	"expires at" BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_expires_at_idx"
+ON "device api key rotation" ("expires at");
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_old_api_key_idx"
+ON "device api key rotation" ("old api key");
+
+CREATE INDEX IF NOT EXISTS "device_api_key_rotation_new_api_key_idx"
+ON "device api key rotation" ("new api key");
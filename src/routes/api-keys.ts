@@ -5,6 +5,7 @@ import {
 	createUserApiKey as $createUserApiKey,
 	createNamedUserApiKey as $createNamedUserApiKey,
 } from '../lib/api-keys';
+import { rotateDeviceApiKey as $rotateDeviceApiKey } from '../lib/device-api-key-rotation';
 import { getUser } from '../platform/auth';
 import {
 	captureException,
@@ -33,6 +34,22 @@ export const createDeviceApiKey: RequestHandler = (req, res) => {
 		});
 };
 
+// Issues a new api key to the device making the request, with its current key
+// staying valid until the device authenticates with the new one, or until the
+// grace period is over
+export const rotateDeviceApiKey: RequestHandler = (req, res) =>
+	$rotateDeviceApiKey(req, req.params.uuid)
+		.then(rotation => {
+			res.json(rotation);
+		})
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			captureException(err, 'Error rotating device API key', { req });
+			res.status(500).send(translateError(err));
+		});
+
 export const createProvisioningApiKey: RequestHandler = (req, res) => {
 	const appId = _.parseInt(req.params.appId, 10);
 	if (!_.isFinite(appId)) {
@@ -1,24 +1,58 @@
-import { createGunzip } from 'zlib';
+import { createGunzip, createGzip } from 'zlib';
 import * as Promise from 'bluebird';
 import { Request, Response, RequestHandler } from 'express';
 import * as _ from 'lodash';
 import * as ndjson from 'ndjson';
 
-import { RedisBackend } from '../lib/device-logs/backends/redis';
+import { getBackend } from '../lib/device-logs/backends';
 import {
 	DeviceLog,
-	DeviceLogsBackend,
+	DeviceLogWithUuid,
+	HistoryPage,
+	HistoryQuery,
+	IncomingDeviceLog,
 	LogContext,
+	LogFilter,
+	LogTimeField,
 	LogWriteContext,
 	AnySupervisorLog,
 	SupervisorLog,
 	StreamState,
 } from '../lib/device-logs/struct';
+import {
+	createFormatter,
+	ExportFormat,
+	EXPORT_FORMATS,
+} from '../lib/device-logs/export';
+import { CURSOR_HEADER } from '../lib/device-logs/cursor';
+import { matchesQuery, toSafeRegExp } from '../lib/device-logs/filters';
+import {
+	addRetentionSettings,
+	DEFAULT_RETENTION_LIMIT,
+	LOG_SETTINGS_FIELDS,
+} from '../lib/device-logs/settings';
+import { evaluateAlertRules } from '../lib/device-logs/alerts';
+import { getMetrics } from '../lib/device-logs/metrics';
+import { addRedactionSettings, redact } from '../lib/device-logs/redaction';
+import { forwardLogs } from '../lib/device-logs/sinks';
+import {
+	checkQuota,
+	getUsageStats,
+	recordUsage,
+} from '../lib/device-logs/usage';
 import { Supervisor } from '../lib/device-logs/supervisor';
+import {
+	createTransport,
+	getTransportType,
+	NDJSON_CTYPE,
+} from '../lib/device-logs/transports';
+import { TooManyRequestsError } from '../lib/errors';
+import { checkInt } from '../lib/utils';
 import { captureException, handleHttpErrors } from '../platform/errors';
 import {
 	PinejsClient,
 	resinApi,
+	root,
 	sbvrUtils,
 	Tx,
 	wrapInTransaction,
@@ -35,13 +69,14 @@ const {
 const HEARTBEAT_INTERVAL = 58e3;
 const STREAM_FLUSH_INTERVAL = 500;
 const BACKEND_UNAVAILABLE_FLUSH_INTERVAL = 5000;
-const NDJSON_CTYPE = 'application/x-ndjson';
+const GZIP_CTYPE = 'application/gzip';
 const WRITE_BUFFER_LIMIT = 50;
 const DEFAULT_HISTORY_LOGS = 1000;
-const DEFAULT_RETENTION_LIMIT = 1000;
 const DEFAULT_SUBSCRIPTION_LOGS = 0;
+const LOG_TIME_FIELDS: LogTimeField[] = ['createdAt', 'timestamp'];
+// Longer timeouts overflow and fire straight away
+const MAX_TIMEOUT = 2 ** 31 - 1;
 
-const redis = new RedisBackend();
 const supervisor = new Supervisor();
 
 // Reading logs section
@@ -50,110 +85,274 @@ export function read(req: Request, res: Response) {
 	const api = resinApi.clone({ passthrough: { req } });
 	return getReadContext(api, req)
 		.then(ctx => {
-			if (req.query.stream === '1') {
-				addRetentionLimit(ctx);
-				return handleStreamingRead(ctx, res);
+			if (isStreamingRequest(req)) {
+				addRetentionSettings(ctx);
+				const query = getStreamQuery(req);
+				return handleStreamingRead(req, [ctx], query, res);
 			}
-			return getHistory(ctx, DEFAULT_HISTORY_LOGS).then(logs => {
-				res.json(logs);
+			const query = getPageQuery(req);
+			return getHistory(ctx, query).then(page => {
+				// The logs are returned as is, so the cursor of the next page goes in a header
+				if (page.cursor != null) {
+					res.setHeader(CURSOR_HEADER, page.cursor);
+				}
+				res.json(page.logs);
 			});
 		})
-		.catch((err: Error) => {
-			if (handleHttpErrors(req, res, err)) {
-				return;
+		.catch(handleReadErrors(req, res));
+}
+
+export function readApplication(req: Request, res: Response) {
+	const api = resinApi.clone({ passthrough: { req } });
+	return Promise.try(() => {
+		if (!isStreamingRequest(req)) {
+			throw new BadRequestError(
+				'Application logs can only be read as a stream (`stream=1`)',
+			);
+		}
+		return getApplicationReadContexts(api, req);
+	})
+		.then(ctxs => {
+			ctxs.forEach(addRetentionSettings);
+			const query = getStreamQuery(req);
+			return handleStreamingRead(req, ctxs, query, res, true);
+		})
+		.catch(handleReadErrors(req, res));
+}
+
+export function exportLogs(req: Request, res: Response) {
+	const api = resinApi.clone({ passthrough: { req } });
+	return getReadContext(api, req)
+		.then(ctx => {
+			const format: ExportFormat =
+				req.query.format == null ? 'ndjson' : req.query.format;
+			if (!EXPORT_FORMATS.includes(format)) {
+				throw new BadRequestError(
+					`'format' must be one of: ${EXPORT_FORMATS.join(', ')}`,
+				);
 			}
-			captureException(err, 'Failed to read device logs', { req });
-			res.sendStatus(500);
-		});
+			addRetentionSettings(ctx);
+			// The export always includes the whole retained history within the range
+			const query = getHistoryQuery(req, Infinity);
+			const logs = getBackend(ctx).historyStream(ctx, query);
+
+			res.setHeader('Content-Type', GZIP_CTYPE);
+			res.setHeader(
+				'Content-Disposition',
+				`attachment; filename="${ctx.uuid}-logs.${format}.gz"`,
+			);
+
+			logs.on('error', (err: Error) => {
+				// Nothing is sent until the first logs are read, like when the query
+				// turns out to be invalid
+				if (!res.headersSent) {
+					res.removeHeader('Content-Type');
+					res.removeHeader('Content-Disposition');
+					handleReadErrors(req, res)(err);
+					return;
+				}
+				captureException(err, 'Failed to export device logs', { req });
+				// The headers are already sent, so all we can do is abort the download
+				res.destroy();
+			});
+			res.on('close', () => {
+				logs.destroy();
+			});
+
+			logs
+				.pipe(createFormatter(format))
+				.pipe(createGzip())
+				.pipe(res);
+		})
+		.catch(handleReadErrors(req, res));
+}
+
+// The logs the device sent today, and how many of them went over its quota
+export function stats(req: Request, res: Response) {
+	const api = resinApi.clone({ passthrough: { req } });
+	return getReadContext(api, req)
+		.then(getUsageStats)
+		.then(usage => {
+			res.json(usage);
+		})
+		.catch(handleReadErrors(req, res));
+}
+
+// The SSE and WebSocket transports only make sense for streams
+const isStreamingRequest = (req: Request) =>
+	req.query.stream === '1' || getTransportType(req) !== 'ndjson';
+
+function handleReadErrors(req: Request, res: Response) {
+	return function(err: Error) {
+		if (handleHttpErrors(req, res, err)) {
+			return;
+		}
+		captureException(err, 'Failed to read device logs', { req });
+		res.sendStatus(500);
+	};
 }
 
-function handleStreamingRead(ctx: LogContext, res: Response) {
+function handleStreamingRead(
+	req: Request,
+	ctxs: LogContext[],
+	query: HistoryQuery,
+	res: Response,
+	// Tag each log with the uuid of its device, when streaming multiple devices
+	tagLogs = false,
+) {
 	let state = StreamState.Buffering;
 	let dropped = 0;
-	const buffer: DeviceLog[] = [];
+	let endTimeout: NodeJS.Timer | undefined;
+	const buffer: Array<{ uuid: string; log: DeviceLog }> = [];
+
+	return createTransport(req, res).then(transport => {
+		function onLog(log: DeviceLog) {
+			if (state === StreamState.Saturated) {
+				dropped++;
+			} else if (state !== StreamState.Closed) {
+				if (!transport.write(log) && state === StreamState.Writable) {
+					state = StreamState.Saturated;
+				}
+			}
+		}
 
-	res.setHeader('Content-Type', NDJSON_CTYPE);
-	res.setHeader('Cache-Control', 'no-cache');
+		transport.on('drain', () => {
+			if (state === StreamState.Closed) {
+				return;
+			}
+			state = StreamState.Writable;
+			if (dropped) {
+				onLog({
+					createdAt: Date.now(),
+					timestamp: Date.now(),
+					isStdErr: true,
+					isSystem: true,
+					message: `Warning: Suppressed ${dropped} message(s) due to slow reading`,
+				});
+				dropped = 0;
+			}
+		});
 
-	function onLog(log: DeviceLog) {
-		if (state === StreamState.Buffering) {
-			buffer.push(log);
-		} else if (state === StreamState.Saturated) {
-			dropped++;
-		} else if (state !== StreamState.Closed) {
-			if (
-				!res.write(JSON.stringify(log) + '\n') &&
-				state === StreamState.Writable
-			) {
-				state = StreamState.Saturated;
+		function tagLog(ctx: LogContext, log: DeviceLog): DeviceLog {
+			if (!tagLogs) {
+				return log;
 			}
+			const taggedLog: DeviceLogWithUuid = { ...log, uuid: ctx.uuid };
+			return taggedLog;
 		}
-	}
 
-	res.on('drain', () => {
-		if (state === StreamState.Closed) {
-			return;
-		}
-		state = StreamState.Writable;
-		if (dropped) {
-			onLog({
-				createdAt: Date.now(),
-				timestamp: Date.now(),
-				isStdErr: true,
-				isSystem: true,
-				message: `Warning: Suppressed ${dropped} message(s) due to slow reading`,
-			});
-			dropped = 0;
-		}
-	});
+		// Filter before buffering, so that only matching logs count towards saturation
+		const subscriptions = ctxs.map(ctx => (log: DeviceLog) => {
+			if (!matchesQuery(log, query)) {
+				return;
+			}
+			if (state === StreamState.Buffering) {
+				buffer.push({ uuid: ctx.uuid, log: tagLog(ctx, log) });
+			} else {
+				onLog(tagLog(ctx, log));
+			}
+		});
 
-	function heartbeat() {
-		if (state !== StreamState.Closed) {
-			// In order to keep the connection alive, output new lines every now and then
-			res.write('\n');
-			setTimeout(heartbeat, HEARTBEAT_INTERVAL);
+		function heartbeat() {
+			if (state !== StreamState.Closed) {
+				transport.heartbeat();
+				setTimeout(heartbeat, HEARTBEAT_INTERVAL);
+			}
 		}
-	}
 
-	setTimeout(heartbeat, HEARTBEAT_INTERVAL);
+		setTimeout(heartbeat, HEARTBEAT_INTERVAL);
+
+		function close() {
+			if (state !== StreamState.Closed) {
+				state = StreamState.Closed;
+				ctxs.forEach((ctx, i) => {
+					getBackend(ctx).unsubscribe(ctx, subscriptions[i]);
+				});
+				if (endTimeout != null) {
+					clearTimeout(endTimeout);
+				}
+			}
+		}
 
-	function close() {
-		if (state !== StreamState.Closed) {
-			state = StreamState.Closed;
-			getBackend(ctx).unsubscribe(ctx, onLog);
+		function end(err?: Error) {
+			if (state !== StreamState.Closed) {
+				close();
+				transport.end(err);
+			}
 		}
-	}
 
-	ctx.req.on('aborted', close);
-	res.on('close', close);
+		transport.on('close', close);
 
-	// Subscribe in parallel so we don't miss logs in between
-	getBackend(ctx).subscribe(ctx, onLog);
-	return getHistory(ctx, DEFAULT_SUBSCRIPTION_LOGS)
-		.tapCatch(close)
-		.then(logs => {
-			if (state === StreamState.Closed) {
-				return;
-			}
+		// Subscribe in parallel so we don't miss logs in between
+		ctxs.forEach((ctx, i) => {
+			getBackend(ctx).subscribe(ctx, subscriptions[i]);
+		});
+		return Promise.map(ctxs, ctx =>
+			getHistory(ctx, query).then(({ logs }) =>
+				logs.map(log => tagLog(ctx, log)),
+			),
+		)
+			.tapCatch(close)
+			.then(histories => {
+				if (state === StreamState.Closed) {
+					return;
+				}
 
-			const afterDate = logs.length && logs[logs.length - 1].createdAt;
-			// Append the subscription logs to the history queue
-			while (buffer.length) {
-				const log = buffer.shift();
-				if (log && log.createdAt > afterDate) {
-					logs.push(log);
-					// Ensure we don't send more than the retention limit
-					if (ctx.retention_limit && logs.length > ctx.retention_limit) {
-						logs.shift();
+				const afterDates: Dictionary<number> = {};
+				ctxs.forEach((ctx, i) => {
+					const deviceLogs = histories[i];
+					afterDates[ctx.uuid] =
+						deviceLogs.length && deviceLogs[deviceLogs.length - 1].createdAt;
+				});
+				// Merge the history of all the devices in order
+				const logs =
+					histories.length === 1
+						? histories[0]
+						: _(histories)
+								.flatten()
+								.sortBy('createdAt')
+								.takeRight(query.count)
+								.value();
+				const retentionLimit = _.sumBy(
+					ctxs,
+					ctx => ctx.retention_limit || DEFAULT_RETENTION_LIMIT,
+				);
+
+				// Append the subscription logs to the history queue
+				while (buffer.length) {
+					const entry = buffer.shift();
+					if (entry && entry.log.createdAt > afterDates[entry.uuid]) {
+						logs.push(entry.log);
+						// Ensure we don't send more than the retention limit
+						if (logs.length > retentionLimit) {
+							logs.shift();
+						}
 					}
 				}
-			}
 
-			// Ensure we don't drop the history logs "burst"
-			state = StreamState.Flushing;
-			logs.forEach(onLog);
-			state = StreamState.Writable;
-		});
+				// Ensure we don't drop the history logs "burst"
+				state = StreamState.Flushing;
+				logs.forEach(onLog);
+				state = StreamState.Writable;
+
+				// No new logs can be created within the range once `until` has passed
+				if (query.until != null && query.timeField === 'createdAt') {
+					const untilDelay = Math.max(query.until - Date.now(), 0);
+					// The stream won't be kept open for that long anyway
+					if (untilDelay <= MAX_TIMEOUT) {
+						endTimeout = setTimeout(end, untilDelay);
+					}
+				}
+			})
+			.catch(err => {
+				if (!transport.upgraded) {
+					throw err;
+				}
+				// There is no response to send the error with anymore
+				captureException(err, 'Failed to read device logs', { req });
+				transport.end(err);
+			});
+	});
 }
 
 function getCount(
@@ -177,20 +376,134 @@ function getCount(
 	}
 }
 
+function getTimestamp(
+	req: Request,
+	param: 'since' | 'until',
+): number | undefined {
+	const value = req.query[param];
+	if (value == null) {
+		return;
+	}
+	// Accept both timestamps in milliseconds and date strings
+	const timestamp = /^\d+$/.test(value)
+		? _.parseInt(value, 10)
+		: Date.parse(value);
+	if (!_.isFinite(timestamp)) {
+		throw new BadRequestError(`Invalid '${param}' parameter`);
+	}
+	return timestamp;
+}
+
+function getBoolean(req: Request, param: string): boolean | undefined {
+	const value = req.query[param];
+	if (value == null) {
+		return;
+	}
+	if (value === 'true' || value === '1') {
+		return true;
+	}
+	if (value === 'false' || value === '0') {
+		return false;
+	}
+	throw new BadRequestError(`'${param}' must be a boolean`);
+}
+
+function getLogFilter(req: Request): LogFilter {
+	const { query } = req;
+	const filter: LogFilter = {
+		isSystem: getBoolean(req, 'isSystem'),
+		isStdErr: getBoolean(req, 'isStdErr'),
+	};
+	if (query.serviceId != null) {
+		// Accept a comma separated list of service ids
+		filter.serviceIds = `${query.serviceId}`.split(',').map(serviceId => {
+			const id = checkInt(serviceId);
+			if (id === false) {
+				throw new BadRequestError(`Invalid 'serviceId' parameter`);
+			}
+			return id;
+		});
+	}
+	if (query.message != null) {
+		filter.message = `${query.message}`;
+	}
+	if (query.messageRegex != null) {
+		try {
+			filter.messageRegex = toSafeRegExp(`${query.messageRegex}`);
+		} catch {
+			throw new BadRequestError(`Invalid 'messageRegex' parameter`);
+		}
+	}
+	return filter;
+}
+
+function getHistoryQuery(req: Request, defaultCount: number): HistoryQuery {
+	const { query } = req;
+	const timeField: LogTimeField =
+		query.timeField == null ? 'createdAt' : query.timeField;
+	if (!LOG_TIME_FIELDS.includes(timeField)) {
+		throw new BadRequestError(
+			`'timeField' must be one of: ${LOG_TIME_FIELDS.join(', ')}`,
+		);
+	}
+	const since = getTimestamp(req, 'since');
+	const until = getTimestamp(req, 'until');
+	// When asking for logs since a specific time, don't skip the history by default
+	if (since != null) {
+		defaultCount = Math.max(defaultCount, DEFAULT_HISTORY_LOGS);
+	}
+	return {
+		count: getCount(query.count, defaultCount),
+		since,
+		until,
+		timeField,
+		filter: getLogFilter(req),
+	};
+}
+
+// Pages through the history of older logs, when given the cursor of a previous page
+function getPageQuery(req: Request): HistoryQuery {
+	const query = getHistoryQuery(req, DEFAULT_HISTORY_LOGS);
+	const { cursor } = req.query;
+	if (cursor == null) {
+		return query;
+	}
+	if (!_.isString(cursor) || cursor === '') {
+		throw new BadRequestError(`Invalid 'cursor' parameter`);
+	}
+	return { ...query, cursor };
+}
+
+// Live streams resume after the last event an SSE client received, if any
+function getStreamQuery(req: Request): HistoryQuery {
+	const query = getHistoryQuery(req, DEFAULT_SUBSCRIPTION_LOGS);
+	const lastEventId = req.get('Last-Event-ID');
+	if (lastEventId == null || query.timeField !== 'createdAt') {
+		return query;
+	}
+	const lastCreatedAt = checkInt(lastEventId);
+	if (lastCreatedAt === false) {
+		throw new BadRequestError('Invalid Last-Event-ID header');
+	}
+	// The event ids are the createdAt of the logs, so we skip the ones created
+	// within the same millisecond, rather than sending the last one again
+	return {
+		...query,
+		count: Math.max(query.count, DEFAULT_HISTORY_LOGS),
+		since: Math.max(query.since || 0, lastCreatedAt + 1),
+	};
+}
+
 function getHistory(
 	ctx: LogContext,
-	defaultCount: number,
-): Promise<DeviceLog[]> {
-	const { query } = ctx.req;
-	const count = getCount(query.count, defaultCount);
-
+	query: HistoryQuery,
+): Promise<HistoryPage> {
 	// Optimize the case where the caller doesn't need any history
-	if (!count) {
-		return Promise.resolve([]);
+	if (!query.count) {
+		return Promise.resolve({ logs: [] });
 	}
 
-	// TODO: Implement `?since` filter here too in the next phase
-	return getBackend(ctx).history(ctx, count);
+	return getBackend(ctx).history(ctx, query);
 }
 
 // Writing logs section
@@ -200,12 +513,18 @@ export const store: RequestHandler = wrapInTransaction(
 		const api = resinApi.clone({ passthrough: { req, tx } });
 		return getWriteContext(api, req)
 			.tap(checkWritePermissions)
-			.tap(addRetentionLimit)
+			.tap(addRetentionSettings)
+			.tap(addRedactionSettings)
 			.then(ctx => {
 				const body: AnySupervisorLog[] = req.body;
-				const logs: DeviceLog[] = supervisor.convertLogs(ctx, body);
+				const logs: IncomingDeviceLog[] = supervisor.convertLogs(ctx, body);
 				if (logs.length) {
-					return getBackend(ctx).publish(ctx, logs);
+					return checkDependentWritePermissions(ctx, logs)
+						.then(() => checkQuota(ctx, logs))
+						.tapCatch(TooManyRequestsError, () => {
+							recordUsage(ctx, 'rejected', logs);
+						})
+						.then(() => publishLogs(ctx, logs));
 				}
 			})
 			.then(() => {
@@ -217,15 +536,21 @@ export const store: RequestHandler = wrapInTransaction(
 
 export function storeStream(req: Request, res: Response) {
 	const api = resinApi.clone({ passthrough: { req } });
+	// Devices that are over their quota are rejected before taking in the stream
 	return getWriteContext(api, req)
 		.tap(checkWritePermissions)
-		.tap(addRetentionLimit)
+		.tap(addRetentionSettings)
+		.tap(addRedactionSettings)
+		.tap(ctx => checkQuota(ctx, []))
 		.then(ctx => handleStreamingWrite(ctx, res))
 		.catch(handleStoreErrors(req, res));
 }
 
 function handleStoreErrors(req: Request, res: Response) {
 	return function(err: Error) {
+		if (err instanceof TooManyRequestsError) {
+			res.set('Retry-After', `${err.retryAfter}`);
+		}
 		if (handleHttpErrors(req, res, err)) {
 			return;
 		}
@@ -253,7 +578,7 @@ function handleStreamingWrite(ctx: LogWriteContext, res: Response): void {
 		);
 	}
 
-	let buffer: DeviceLog[] = [];
+	let buffer: IncomingDeviceLog[] = [];
 	const parser = ndjson.parse();
 
 	function close(err?: Error) {
@@ -303,7 +628,16 @@ function handleStreamingWrite(ctx: LogWriteContext, res: Response): void {
 				// Don't flush if the backend is reporting as unavailable
 				if (buffer.length && backend.available) {
 					// Even if the connection was closed, still flush the buffer
-					const promise = backend.publish(ctx, buffer);
+					const logs = buffer;
+					const promise = checkQuota(ctx, logs)
+						.then(() => publishLogs(ctx, logs))
+						.catch(TooManyRequestsError, err => {
+							// Drop the logs and end the stream once the quota is exhausted
+							recordUsage(ctx, 'dropped', logs);
+							if (!res.headersSent) {
+								errHandler(err);
+							}
+						});
 					buffer = [];
 					// Resume in case it was paused due to buffering
 					if (req.isPaused()) {
@@ -312,6 +646,8 @@ function handleStreamingWrite(ctx: LogWriteContext, res: Response): void {
 					return promise;
 				}
 			})
+			// Pick up the changes to the redaction settings of long lived streams
+			.then(() => addRedactionSettings(ctx))
 			.then(() => {
 				// If headers were sent, it means the connection is ended
 				if (!res.headersSent || buffer.length) {
@@ -333,7 +669,12 @@ function getReadContext(api: PinejsClient, req: Request): Promise<LogContext> {
 			resource: 'device',
 			options: {
 				$filter: { uuid },
-				$select: ['id', 'logs_channel'],
+				$select: ['id', 'logs_channel', ...LOG_SETTINGS_FIELDS],
+				$expand: {
+					belongs_to__application: {
+						$select: ['id', ...LOG_SETTINGS_FIELDS],
+					},
+				},
 			},
 		})
 		.then(([ctx]: LogContext[]) => {
@@ -347,6 +688,45 @@ function getReadContext(api: PinejsClient, req: Request): Promise<LogContext> {
 		});
 }
 
+function getApplicationReadContexts(
+	api: PinejsClient,
+	req: Request,
+): Promise<LogContext[]> {
+	const appId = checkInt(req.params.appId);
+	if (appId === false) {
+		return Promise.reject(
+			new BadRequestError('Application id must be a number'),
+		);
+	}
+	return api
+		.get({
+			resource: 'application',
+			id: appId,
+			options: {
+				$select: ['id', ...LOG_SETTINGS_FIELDS],
+				$expand: {
+					// Only the devices the caller has access to will be included
+					owns__device: {
+						$select: ['id', 'uuid', 'logs_channel', ...LOG_SETTINGS_FIELDS],
+					},
+				},
+			},
+		})
+		.then((app: AnyObject) => {
+			if (app == null) {
+				throw new NotFoundError('No application with id ' + appId);
+			}
+			return (app.owns__device as LogContext[]).map(ctx => {
+				ctx.belongs_to__application = [
+					_.pick(app, ['id', ...LOG_SETTINGS_FIELDS]),
+				];
+				ctx.req = req;
+				ctx.resinApi = api;
+				return ctx;
+			});
+		});
+}
+
 function getWriteContext(
 	api: PinejsClient,
 	req: Request,
@@ -357,8 +737,11 @@ function getWriteContext(
 			resource: 'device',
 			options: {
 				$filter: { uuid },
-				$select: ['id', 'logs_channel'],
+				$select: ['id', 'logs_channel', ...LOG_SETTINGS_FIELDS],
 				$expand: {
+					belongs_to__application: {
+						$select: ['id', ...LOG_SETTINGS_FIELDS],
+					},
 					image_install: {
 						$select: 'id',
 						$expand: {
@@ -385,8 +768,104 @@ function getWriteContext(
 		});
 }
 
-function addRetentionLimit(ctx: LogContext) {
-	ctx.retention_limit = DEFAULT_RETENTION_LIMIT;
+// Publishes the logs of the device itself, as well as the logs it sent for the
+// dependent devices it manages, which are silently dropped if it doesn't manage them
+function publishLogs(
+	ctx: LogWriteContext,
+	logs: IncomingDeviceLog[],
+): Promise<any> {
+	const logsByUuid = _.groupBy(logs, log => log.uuid || ctx.uuid);
+	return Promise.map(_.toPairs(logsByUuid), ([uuid, deviceLogs]) => {
+		const storedLogs = deviceLogs.map(log => _.omit(log, 'uuid') as DeviceLog);
+		if (uuid === ctx.uuid) {
+			return publishDeviceLogs(ctx, storedLogs);
+		}
+		return getDependentWriteContext(ctx, uuid).then(dependentCtx => {
+			if (dependentCtx == null) {
+				recordUsage(ctx, 'dropped', storedLogs);
+				return;
+			}
+			return publishDeviceLogs(dependentCtx, storedLogs);
+		});
+	});
+}
+
+// The logs are redacted with the settings of the device they belong to, and
+// once stored they are also forwarded to the sinks of its application and
+// checked against its alert rules
+function publishDeviceLogs(ctx: LogWriteContext, deviceLogs: DeviceLog[]) {
+	const logs = deviceLogs.map(log => ({
+		...log,
+		message: redact(ctx, log.message),
+	}));
+	return getBackend(ctx)
+		.publish(ctx, logs)
+		.then(() => {
+			recordUsage(ctx, 'ingested', logs);
+			forwardLogs(ctx, logs);
+			evaluateAlertRules(ctx, logs);
+		});
+}
+
+function getDependentWriteContext(
+	ctx: LogWriteContext,
+	uuid: string,
+): Promise<LogWriteContext | undefined> {
+	if (ctx.dependents == null) {
+		ctx.dependents = {};
+	}
+	if (ctx.dependents[uuid] == null) {
+		// The gateway is allowed to write the logs of the devices it manages,
+		// so we look them up with full privileges, but only within that relationship
+		ctx.dependents[uuid] = ctx.resinApi
+			.get({
+				resource: 'device',
+				passthrough: { req: root },
+				options: {
+					$filter: { uuid, is_managed_by__device: ctx.id },
+					$select: ['id', 'logs_channel', ...LOG_SETTINGS_FIELDS],
+					$expand: {
+						belongs_to__application: {
+							$select: ['id', ...LOG_SETTINGS_FIELDS],
+						},
+					},
+				},
+			})
+			.then(([dependentCtx]: LogWriteContext[]) => {
+				if (!dependentCtx) {
+					return Promise.resolve(undefined);
+				}
+				dependentCtx.uuid = uuid;
+				dependentCtx.req = ctx.req;
+				dependentCtx.resinApi = ctx.resinApi;
+				// Dependent devices only use the new log format
+				dependentCtx.image_install = [];
+				addRetentionSettings(dependentCtx);
+				return addRedactionSettings(dependentCtx).return(dependentCtx);
+			});
+	}
+	return ctx.dependents[uuid];
+}
+
+function checkDependentWritePermissions(
+	ctx: LogWriteContext,
+	logs: IncomingDeviceLog[],
+): Promise<void> {
+	const uuids = _(logs)
+		.map('uuid')
+		.compact()
+		.uniq()
+		.without(ctx.uuid)
+		.value();
+	return Promise.each(uuids, uuid =>
+		getDependentWriteContext(ctx, uuid).then(dependentCtx => {
+			if (dependentCtx == null) {
+				throw new UnauthorizedError(
+					`Not allowed to write device logs for device ${uuid}`,
+				);
+			}
+		}),
+	).return();
 }
 
 function checkWritePermissions(ctx: LogWriteContext): Promise<void> {
@@ -405,6 +884,8 @@ function checkWritePermissions(ctx: LogWriteContext): Promise<void> {
 		});
 }
 
-function getBackend(_ctx: LogContext): DeviceLogsBackend {
-	return redis;
+// Metrics section
+
+export function metrics(_req: Request, res: Response) {
+	res.json(getMetrics());
 }
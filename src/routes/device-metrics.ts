@@ -0,0 +1,83 @@
+import * as Promise from 'bluebird';
+import { Request, RequestHandler, Response } from 'express';
+
+import {
+	getDeviceMetrics,
+	getFleetMetrics,
+	METRIC_FIELDS,
+	MetricsQuery,
+} from '../lib/device-metrics';
+import { checkInt, getTimestampParam } from '../lib/utils';
+import { captureException, handleHttpErrors } from '../platform/errors';
+import { resinApi, sbvrUtils } from '../platform';
+
+const { BadRequestError, NotFoundError } = sbvrUtils;
+
+const getMetricsQuery = (req: Request): MetricsQuery => ({
+	since: getTimestampParam(req, 'since'),
+	until: getTimestampParam(req, 'until'),
+});
+
+const handleMetricsErrors = (req: Request, res: Response) => (err: Error) => {
+	if (handleHttpErrors(req, res, err)) {
+		return;
+	}
+	captureException(err, 'Error getting device metrics', { req });
+	res.sendStatus(500);
+};
+
+// The latest metrics the device reported, along with their history
+export const readDevice: RequestHandler = (req, res) => {
+	const { uuid } = req.params;
+	Promise.try(() => {
+		const query = getMetricsQuery(req);
+		return resinApi
+			.get({
+				resource: 'device',
+				passthrough: { req },
+				options: {
+					$select: ['id', ...METRIC_FIELDS],
+					$filter: { uuid },
+				},
+			})
+			.then(([device]: AnyObject[]) => {
+				if (device == null) {
+					throw new NotFoundError('No device with uuid ' + uuid);
+				}
+				return getDeviceMetrics(device.id, query).then(history => {
+					const { id, ...latest } = device;
+					res.json({ latest, history });
+				});
+			});
+	}).catch(handleMetricsErrors(req, res));
+};
+
+// The metrics of all the devices of the application the caller has access to,
+// aggregated over time, along with the devices that peaked the highest
+export const readApplication: RequestHandler = (req, res) => {
+	Promise.try(() => {
+		const appId = checkInt(req.params.appId);
+		if (appId === false) {
+			throw new BadRequestError('Application id must be a number');
+		}
+		const query = getMetricsQuery(req);
+		return resinApi
+			.get({
+				resource: 'application',
+				id: appId,
+				passthrough: { req },
+				options: {
+					$select: 'id',
+					$expand: 'owns__device/$count',
+				},
+			})
+			.then((app: AnyObject) => {
+				if (app == null) {
+					throw new NotFoundError('No application with id ' + appId);
+				}
+				return getFleetMetrics(app.id, query).then(({ history, top }) => {
+					res.json({ device_count: app.owns__device, history, top });
+				});
+			});
+	}).catch(handleMetricsErrors(req, res));
+};
@@ -0,0 +1,354 @@
+import * as _ from 'lodash';
+import * as Promise from 'bluebird';
+import * as randomstring from 'randomstring';
+import { Request, RequestHandler, Response } from 'express';
+
+import { createDeviceApiKey } from '../lib/api-keys';
+import { DEVICE_PRE_REGISTRATION_EXPIRY_DAYS } from '../lib/config';
+import {
+	claimDevice,
+	getPreRegistrationsFilter,
+	hashClaimCode,
+	parseSerialNumbers,
+	PRE_REGISTRATION_STATUSES,
+} from '../lib/device-pre-registrations';
+import { checkInt } from '../lib/utils';
+import { getUser } from '../platform/auth';
+import { captureException, handleHttpErrors } from '../platform/errors';
+import { db, resinApi, root, sbvrUtils } from '../platform';
+
+const { BadRequestError, NotFoundError, UnauthorizedError } = sbvrUtils;
+
+// The most devices that can be pre-registered at once
+const MAX_PRE_REGISTRATIONS = 1000;
+
+const preRegistrationSelect = [
+	'id',
+	'uuid',
+	'serial_number',
+	'device_type',
+	'claim_code',
+	'claim_expiry_date',
+	'created_at',
+];
+
+const handlePreRegistrationErrors = (
+	req: Request,
+	res: Response,
+	message: string,
+) => (err: Error) => {
+	if (handleHttpErrors(req, res, err)) {
+		return;
+	}
+	captureException(err, message, { req });
+	res.sendStatus(500);
+};
+
+const getAppId = (req: Request): number => {
+	const appId = checkInt(req.params.appId);
+	if (appId === false) {
+		throw new BadRequestError('Application id must be a number');
+	}
+	return appId;
+};
+
+const getStatus = (req: Request): string | undefined => {
+	const { status } = req.query;
+	if (status != null && !PRE_REGISTRATION_STATUSES.includes(status)) {
+		throw new BadRequestError(
+			`Status must be one of: ${PRE_REGISTRATION_STATUSES.join(', ')}`,
+		);
+	}
+	return status;
+};
+
+// The serial numbers of the devices to pre-register, given either as a csv or a
+// list, or just the number of devices if they have none
+const getSerialNumbers = (body: AnyObject): Array<string | undefined> => {
+	const { csv, serial_numbers, count } = body;
+	if (csv != null) {
+		if (!_.isString(csv)) {
+			throw new BadRequestError('csv must be a string');
+		}
+		return parseSerialNumbers(csv);
+	}
+	if (serial_numbers != null) {
+		if (
+			!_.isArray(serial_numbers) ||
+			!_.every(
+				serial_numbers,
+				serialNumber => _.isString(serialNumber) && serialNumber.trim() !== '',
+			)
+		) {
+			throw new BadRequestError('serial_numbers must be a list of strings');
+		}
+		return serial_numbers.map((serialNumber: string) => serialNumber.trim());
+	}
+	const deviceCount = checkInt(count);
+	if (deviceCount === false || deviceCount <= 0) {
+		throw new BadRequestError(
+			'One of csv, serial_numbers or count must be specified',
+		);
+	}
+	return _.times(deviceCount, _.constant(undefined));
+};
+
+const getClaimExpiryDate = (body: AnyObject): Date => {
+	let expiryDays = DEVICE_PRE_REGISTRATION_EXPIRY_DAYS;
+	if (body.expiry_days != null) {
+		const days = checkInt(body.expiry_days);
+		if (days === false || days <= 0) {
+			throw new BadRequestError('expiry_days must be a positive integer');
+		}
+		expiryDays = days;
+	}
+	return new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
+};
+
+const toPreRegistration = (device: AnyObject) => {
+	const { claim_code, ...preRegistration } = device;
+	return {
+		...preRegistration,
+		claim_method: claim_code != null ? 'claim_code' : 'api_key',
+		status:
+			new Date(device.claim_expiry_date) > new Date() ? 'unclaimed' : 'expired',
+	};
+};
+
+// Pre-registers devices in bulk, each with either a one-time claim code, or a
+// pre-generated api key when `generate_api_keys` is set, which are only ever
+// returned here
+export const create: RequestHandler = (req, res) =>
+	Promise.try(() => {
+		const appId = getAppId(req);
+		const serialNumbers = getSerialNumbers(req.body);
+		if (serialNumbers.length === 0) {
+			throw new BadRequestError('No devices to pre-register');
+		}
+		if (serialNumbers.length > MAX_PRE_REGISTRATIONS) {
+			throw new BadRequestError(
+				`At most ${MAX_PRE_REGISTRATIONS} devices can be pre-registered at once`,
+			);
+		}
+		const givenSerialNumbers = _.compact(serialNumbers);
+		const duplicates = _(givenSerialNumbers)
+			.countBy()
+			.pickBy(n => n > 1)
+			.keys()
+			.value();
+		if (duplicates.length > 0) {
+			throw new BadRequestError(
+				`Duplicate serial numbers: ${duplicates.join(', ')}`,
+			);
+		}
+		const claimExpiryDate = getClaimExpiryDate(req.body);
+		const generateApiKeys = req.body.generate_api_keys === true;
+
+		return getUser(req).then(user =>
+			db.transaction(tx => {
+				const resinApiTx = resinApi.clone({ passthrough: { req, tx } });
+				return resinApiTx
+					.get({
+						resource: 'application',
+						id: appId,
+						options: {
+							$select: ['id', 'device_type'],
+						},
+					})
+					.then((app: AnyObject) => {
+						if (app == null) {
+							throw new NotFoundError('No application with id ' + appId);
+						}
+						if (givenSerialNumbers.length === 0) {
+							return app;
+						}
+						return resinApiTx
+							.get({
+								resource: 'device',
+								options: {
+									$select: 'serial_number',
+									$filter: {
+										belongs_to__application: appId,
+										serial_number: { $in: givenSerialNumbers },
+									},
+								},
+							})
+							.then((devices: AnyObject[]) => {
+								if (devices.length > 0) {
+									throw new BadRequestError(
+										`Serial numbers already registered: ${_.map(
+											devices,
+											'serial_number',
+										).join(', ')}`,
+									);
+								}
+								return app;
+							});
+					})
+					.then((app: AnyObject) =>
+						Promise.mapSeries(serialNumbers, serialNumber => {
+							const claimCode = generateApiKeys
+								? undefined
+								: randomstring.generate();
+							return resinApiTx
+								.post({
+									resource: 'device',
+									body: {
+										belongs_to__user: user.id,
+										belongs_to__application: appId,
+										device_type: req.body.device_type || app.device_type,
+										serial_number: serialNumber,
+										claim_code:
+											claimCode != null ? hashClaimCode(claimCode) : null,
+										claim_expiry_date: claimExpiryDate,
+									},
+								})
+								.then(
+									(device: AnyObject): Promise<AnyObject> => {
+										if (device == null) {
+											throw new Error('Failed to create device');
+										}
+										const preRegistration = {
+											id: device.id,
+											uuid: device.uuid,
+											serial_number: device.serial_number,
+											claim_expiry_date: device.claim_expiry_date,
+										};
+										if (!generateApiKeys) {
+											return Promise.resolve({
+												...preRegistration,
+												claim_code: claimCode,
+											});
+										}
+										return createDeviceApiKey(req, device.id, { tx }).then(
+											apiKey => ({
+												...preRegistration,
+												api_key: apiKey,
+											}),
+										);
+									},
+								);
+						}),
+					);
+			}),
+		);
+	})
+		.then(preRegistrations => {
+			res.status(201).json(preRegistrations);
+		})
+		.catch(
+			handlePreRegistrationErrors(req, res, 'Error pre-registering devices'),
+		);
+
+// The pre-registrations of the application which haven't been claimed, or only
+// the unclaimed or expired ones with the `status` parameter
+export const list: RequestHandler = (req, res) =>
+	Promise.try(() => {
+		const appId = getAppId(req);
+		const status = getStatus(req);
+		return resinApi.get({
+			resource: 'device',
+			passthrough: { req },
+			options: {
+				$select: preRegistrationSelect,
+				$filter: getPreRegistrationsFilter(appId, status),
+				$orderby: 'id asc',
+			},
+		});
+	})
+		.then((devices: AnyObject[]) => {
+			res.json(devices.map(toPreRegistration));
+		})
+		.catch(
+			handlePreRegistrationErrors(req, res, 'Error getting pre-registrations'),
+		);
+
+const revokePreRegistrations = (req: Request, uuid?: string) =>
+	Promise.try(() => {
+		const appId = getAppId(req);
+		const preRegistrationsFilter = getPreRegistrationsFilter(
+			appId,
+			getStatus(req),
+		);
+		const filter =
+			uuid != null
+				? { $and: [preRegistrationsFilter, { uuid }] }
+				: preRegistrationsFilter;
+		return db.transaction(tx => {
+			const resinApiTx = resinApi.clone({ passthrough: { req, tx } });
+			return resinApiTx
+				.get({
+					resource: 'device',
+					options: {
+						$select: 'id',
+						$filter: filter,
+					},
+				})
+				.then((devices: AnyObject[]) => {
+					if (uuid != null && devices.length === 0) {
+						throw new NotFoundError(
+							'No unclaimed pre-registration with uuid ' + uuid,
+						);
+					}
+					if (devices.length === 0) {
+						return 0;
+					}
+					return resinApiTx
+						.delete({
+							resource: 'device',
+							options: {
+								$filter: { id: { $in: _.map(devices, 'id') } },
+							},
+						})
+						.return(devices.length);
+				});
+		});
+	});
+
+// Revokes the unclaimed pre-registrations of the application, or only the
+// unclaimed or expired ones with the `status` parameter, deleting their devices
+export const revoke: RequestHandler = (req, res) =>
+	revokePreRegistrations(req)
+		.then(count => {
+			res.json({ revoked: count });
+		})
+		.catch(
+			handlePreRegistrationErrors(req, res, 'Error revoking pre-registrations'),
+		);
+
+export const revokeDevice: RequestHandler = (req, res) =>
+	revokePreRegistrations(req, req.params.uuid)
+		.then(() => {
+			res.sendStatus(200);
+		})
+		.catch(
+			handlePreRegistrationErrors(req, res, 'Error revoking pre-registration'),
+		);
+
+// Lets a pre-registered device claim its record with its one-time claim code,
+// in exchange for its uuid and a new api key
+export const claim: RequestHandler = (req, res) =>
+	Promise.try(() => {
+		const claimCode = req.body.claim_code;
+		if (!_.isString(claimCode) || claimCode === '') {
+			throw new BadRequestError('Claim code must be specified');
+		}
+		return db.transaction(tx =>
+			claimDevice(tx, claimCode).then(device => {
+				if (device == null) {
+					throw new UnauthorizedError('Invalid or expired claim code');
+				}
+				// The device has no credentials yet, and the claim code is what
+				// proves it is the one that was pre-registered
+				return createDeviceApiKey(root, device.id, { tx }).then(apiKey => ({
+					id: device.id,
+					uuid: device.uuid,
+					api_key: apiKey,
+				}));
+			}),
+		);
+	})
+		.then(response => {
+			res.status(201).json(response);
+		})
+		.catch(handlePreRegistrationErrors(req, res, 'Error claiming device'));
@@ -1,5 +1,6 @@
 import * as _ from 'lodash';
 import * as Promise from 'bluebird';
+import { Socket } from 'net';
 
 import {
 	captureException,
@@ -7,24 +8,58 @@ import {
 	handleHttpErrors,
 } from '../platform/errors';
 
-import { resinApi, root, sbvrUtils, PinejsClient, db } from '../platform';
-import { checkInt, isValidInteger, getIP, varListInsert } from '../lib/utils';
+import { resinApi, root, sbvrUtils, PinejsClient, db, Tx } from '../platform';
+import {
+	checkInt,
+	EnvVarList,
+	isValidInteger,
+	getIP,
+	getTimestampParam,
+	varListInsert,
+} from '../lib/utils';
 import { createDeviceApiKey } from '../lib/api-keys';
 import * as randomstring from 'randomstring';
-import { RequestHandler } from 'express';
+import { Request, RequestHandler, Response } from 'express';
 import { PinejsClientCoreFactory } from 'pinejs-client-core';
 import {
 	setMinPollInterval,
 	getReleaseForDevice,
+	keepCurrentRelease,
 	releaseFromApp,
 	serviceInstallFromImage,
 	formatImageLocation,
 	filterDeviceConfig,
 } from '../lib/device-state';
+import {
+	DeviceState,
+	getDeviceState,
+	subscribeToStateChanges,
+	unsubscribeFromStateChanges,
+} from '../lib/device-state-cache';
+import { getStateDiff } from '../lib/device-state-diff';
+import { METRIC_FIELDS } from '../lib/device-metrics';
+import {
+	STATE_PATCH_SCHEMA_VERSION,
+	validateStateV2Patch,
+} from '../lib/device-state-schema';
+import { DEVICE_STATE_VALIDATION } from '../lib/config';
+import {
+	getStateHistory,
+	StateHistoryQuery,
+	STATE_HISTORY_CURSOR_HEADER,
+} from '../lib/device-state-history';
+import { canApplyUpdates } from '../lib/maintenance-windows';
+import { decommissionDevice } from '../lib/device-decommissioning';
 
 export { proxy } from '../lib/device-proxy';
 
-const { BadRequestError, UnauthorizedError } = sbvrUtils;
+const { BadRequestError, NotFoundError, UnauthorizedError } = sbvrUtils;
+
+// Supervisors can wait for their target state to change for this long at most
+const MAX_STATE_WAIT = 5 * 60 * 1000;
+const STATE_WAIT_TIMEOUT_MARGIN = 30 * 1000;
+const DEFAULT_STATE_HISTORY_COUNT = 100;
+const MAX_STATE_HISTORY_COUNT = 1000;
 
 export const register: RequestHandler = (req, res) =>
 	Promise.try(() => {
@@ -270,7 +305,7 @@ const ConfigurationVarsToLabels = {
 const stateQuery = resinApi.prepare<{ uuid: string }>({
 	resource: 'device',
 	options: {
-		$select: ['device_name', 'os_version'],
+		$select: ['device_name', 'os_version', 'is_on__commit'],
 		$filter: { uuid: { '@': 'uuid' } },
 		$expand: {
 			device_config_variable: {
@@ -376,245 +411,741 @@ const stateQuery = resinApi.prepare<{ uuid: string }>({
 	},
 });
 
-export const state: RequestHandler = (req, res) => {
-	const uuid = req.param('uuid');
-	if (!uuid) {
-		return res.send(400);
+// Parse the composition to forward values to the device
+const parseComposition = (release: AnyObject): AnyObject => {
+	if (_.isObject(release.composition)) {
+		return release.composition;
+	}
+	try {
+		return JSON.parse(release.composition);
+	} catch (e) {
+		return {};
 	}
+};
 
-	db.readTransaction(tx =>
-		stateQuery({ uuid }, undefined, { req, tx }).then(
-			([device]: AnyObject[]) => {
-				if (!device) {
-					throw new UnauthorizedError();
-				}
-				const resinApiTx = resinApi.clone({ passthrough: { req, tx } });
+// Builds the state of the service of a release image, with the environment
+// variables of the lists in order of precedence
+const buildServiceState = (
+	ipr: AnyObject,
+	svc: AnyObject,
+	envVarLists: EnvVarList[],
+	config: Dictionary<string>,
+	composition: AnyObject | undefined,
+): AnyObject => {
+	// extract the per-image information
+	const image = ipr.image[0];
+
+	const environment: Dictionary<string> = {};
+	envVarLists.forEach(envVarList => {
+		varListInsert(envVarList, environment);
+	});
+
+	const labels: Dictionary<string> = {};
+	[...ipr.image_label, ...svc.service_label].forEach(
+		({ label_name, value }: { label_name: string; value: string }) => {
+			labels[label_name] = value;
+		},
+	);
 
-				const parentApp: AnyObject = device.belongs_to__application[0];
+	_.each(ConfigurationVarsToLabels, (labelName, confName) => {
+		if (confName in config && !(labelName in labels)) {
+			labels[labelName] = config[confName];
+		}
+	});
 
-				return getReleaseForDevice(resinApiTx, device).then(release => {
-					const config: Dictionary<string> = {};
-					varListInsert(parentApp.application_config_variable, config);
-					varListInsert(device.device_config_variable, config);
-					filterDeviceConfig(config, device.os_version);
-					setMinPollInterval(config);
+	const imgRegistry =
+		image.is_stored_at__image_location +
+		(image.content_hash != null ? `@${image.content_hash}` : '');
+
+	const serviceState: AnyObject = {
+		imageId: image.id,
+		serviceName: svc.service_name,
+		image: formatImageLocation(imgRegistry),
+		// This needs spoken about...
+		running: true,
+		environment,
+		labels,
+	};
 
-					const services: AnyObject = {};
+	if (
+		composition != null &&
+		composition.services != null &&
+		composition.services[svc.service_name] != null
+	) {
+		const compositionService = composition.services[svc.service_name];
+		// We remove the `build` properly explicitly as it's expected to be present
+		// for the builder, but makes no sense for the supervisor to support
+		delete compositionService.build;
+		return {
+			...compositionService,
+			...serviceState,
+		};
+	}
+	return serviceState;
+};
 
-					let composition: AnyObject | undefined;
-					if (release != null) {
-						// Parse the composition to forward values to the device
-						if (_.isObject(release.composition)) {
-							composition = release.composition;
-						} else {
-							try {
-								composition = JSON.parse(release.composition);
-							} catch (e) {
-								composition = {};
-							}
+// Builds the target state of the device from scratch
+const buildState = (
+	req: Request,
+	tx: Tx,
+	uuid: string,
+	canApplyUpdates: boolean,
+): Promise<AnyObject> =>
+	stateQuery({ uuid }, undefined, { req, tx }).then(([device]: AnyObject[]) => {
+		if (!device) {
+			throw new UnauthorizedError();
+		}
+		const resinApiTx = resinApi.clone({ passthrough: { req, tx } });
+
+		const parentApp: AnyObject = device.belongs_to__application[0];
+
+		return getReleaseForDevice(resinApiTx, device, canApplyUpdates).then(
+			release => {
+				const config: Dictionary<string> = {};
+				varListInsert(parentApp.application_config_variable, config);
+				varListInsert(device.device_config_variable, config);
+				filterDeviceConfig(config, device.os_version);
+				setMinPollInterval(config);
+
+				const services: AnyObject = {};
+
+				let composition: AnyObject | undefined;
+				if (release != null) {
+					composition = parseComposition(release);
+
+					(release.contains__image as AnyObject[]).forEach(ipr => {
+						// extract the per-image information
+						const image = ipr.image[0];
+
+						const si = serviceInstallFromImage(device, image);
+						if (si == null) {
+							throw new Error('Could not find service install');
 						}
+						const svc = si.service[0];
 
-						(release.contains__image as AnyObject[]).forEach(ipr => {
-							// extract the per-image information
-							const image = ipr.image[0];
+						services[svc.id] = buildServiceState(
+							ipr,
+							svc,
+							[
+								ipr.image_environment_variable,
+								parentApp.application_environment_variable,
+								svc.service_environment_variable,
+								device.device_environment_variable,
+								si.device_service_environment_variable,
+							],
+							config,
+							composition,
+						);
+					});
+				}
 
-							const si = serviceInstallFromImage(device, image);
-							if (si == null) {
-								throw new Error('Could not find service install');
-							}
-							const svc = si.service[0];
+				const volumes = composition != null ? composition.volumes || {} : {};
+				const networks = composition != null ? composition.networks || {} : {};
+
+				const local = {
+					name: device.device_name,
+					config,
+					apps: {
+						[parentApp.id]: {
+							name: parentApp.app_name,
+							commit: release == null ? undefined : release.commit,
+							releaseId: release == null ? undefined : release.id,
+							services,
+							volumes,
+							networks,
+						},
+					},
+				};
 
-							const environment: Dictionary<string> = {};
+				const dependent = {
+					apps: {} as AnyObject,
+					devices: {} as AnyObject,
+				};
+
+				const depAppCache: Dictionary<{
+					release?: AnyObject;
+					application_environment_variable: Array<{
+						name: string;
+						value: string;
+					}>;
+				}> = {};
+
+				return Promise.map(
+					parentApp.is_depended_on_by__application as AnyObject[],
+					depApp =>
+						releaseFromApp(resinApiTx, depApp).then(release => {
+							depAppCache[depApp.id] = {
+								release,
+								application_environment_variable:
+									depApp.application_environment_variable,
+							};
+
+							const config: Dictionary<string> = {};
+							varListInsert(depApp.application_config_variable, config);
+
+							dependent.apps[depApp.id] = {
+								name: depApp.app_name,
+								parentApp: parentApp.id,
+								config,
+							};
+
+							const image = _.get(release, 'contains__image[0].image[0]');
+							if (release != null && image != null) {
+								const depAppState = dependent.apps[depApp.id];
+								depAppState.releaseId = release.id;
+								depAppState.imageId = image.id;
+								depAppState.commit = release.commit;
+								depAppState.image = formatImageLocation(
+									image.is_stored_at__image_location,
+								);
+							}
+						}),
+				).then(() => {
+					(device.manages__device as AnyObject[]).forEach(depDev => {
+						const depAppId: number = depDev.belongs_to__application.__id;
+						const { release, application_environment_variable } = depAppCache[
+							depAppId
+						];
+
+						const config: Dictionary<string> = {};
+						varListInsert(depDev.device_config_variable, config);
+
+						const ipr = _.get(release, 'contains__image[0]');
+						const image = _.get(ipr, 'image[0]');
+						const svcInstall = serviceInstallFromImage(depDev, image);
+
+						const environment: Dictionary<string> = {};
+						if (ipr != null) {
 							varListInsert(ipr.image_environment_variable, environment);
+						}
+
+						varListInsert(application_environment_variable, environment);
+						if (
+							svcInstall != null &&
+							svcInstall.service != null &&
+							svcInstall.service[0] != null
+						) {
 							varListInsert(
-								parentApp.application_environment_variable,
+								svcInstall.service[0].service_environment_variable,
 								environment,
 							);
-							varListInsert(svc.service_environment_variable, environment);
-							varListInsert(device.device_environment_variable, environment);
+						}
+
+						varListInsert(depDev.device_environment_variable, environment);
+						if (svcInstall != null) {
 							varListInsert(
-								si.device_service_environment_variable,
+								svcInstall.device_service_environment_variable,
 								environment,
 							);
+						}
 
-							const labels: Dictionary<string> = {};
-							[...ipr.image_label, ...svc.service_label].forEach(
-								({
-									label_name,
-									value,
-								}: {
-									label_name: string;
-									value: string;
-								}) => {
-									labels[label_name] = value;
+						dependent.devices[depDev.uuid] = {
+							name: depDev.device_name,
+							apps: {
+								[depAppId]: {
+									config,
+									environment,
 								},
-							);
-
-							_.each(ConfigurationVarsToLabels, (labelName, confName) => {
-								if (confName in config && !(labelName in labels)) {
-									labels[labelName] = config[confName];
-								}
-							});
-
-							const imgRegistry =
-								image.is_stored_at__image_location +
-								(image.content_hash != null ? `@${image.content_hash}` : '');
-
-							services[svc.id] = {
-								imageId: image.id,
-								serviceName: svc.service_name,
-								image: formatImageLocation(imgRegistry),
-								// This needs spoken about...
-								running: true,
-								environment,
-								labels,
-							};
+							},
+						};
+					});
 
-							if (
-								composition != null &&
-								composition.services != null &&
-								composition.services[svc.service_name] != null
-							) {
-								const compositionService =
-									composition.services[svc.service_name];
-								// We remove the `build` properly explicitly as it's expected to be present
-								// for the builder, but makes no sense for the supervisor to support
-								delete compositionService.build;
-								services[svc.id] = {
-									...compositionService,
-									...services[svc.id],
-								};
-							}
-						});
-					}
+					return {
+						local,
+						dependent,
+					};
+				});
+			},
+		);
+	});
 
-					const volumes = composition != null ? composition.volumes || {} : {};
-					const networks =
-						composition != null ? composition.networks || {} : {};
+const stateV3Query = resinApi.prepare<{ uuid: string }>({
+	resource: 'device',
+	options: {
+		$select: [
+			'device_name',
+			'os_version',
+			'is_on__commit',
+			'belongs_to__application',
+		],
+		$filter: { uuid: { '@': 'uuid' } },
+		$expand: {
+			device_config_variable: {
+				$select: ['name', 'value'],
+			},
+			device_environment_variable: {
+				$select: ['name', 'value'],
+			},
+			should_be_running__release: {
+				$select: ['id', 'commit'],
+			},
+			service_install: {
+				$select: ['id', 'installs__service'],
+				$expand: {
+					device_service_environment_variable: {
+						$select: ['name', 'value'],
+					},
+				},
+			},
+			device_application: {
+				$select: 'runs__application',
+			},
+		},
+	},
+});
 
-					const local = {
+const getStateV3Applications = (
+	api: PinejsClient,
+	appIds: number[],
+): Promise<AnyObject[]> =>
+	api.get({
+		resource: 'application',
+		options: {
+			$select: ['id', 'app_name', 'commit'],
+			$filter: { id: { $in: appIds } },
+			$expand: {
+				application_type: {
+					$select: 'is_host_os',
+				},
+				application_config_variable: {
+					$select: ['name', 'value'],
+				},
+				application_environment_variable: {
+					$select: ['name', 'value'],
+				},
+				service: {
+					$select: ['id', 'service_name'],
+					$expand: {
+						service_environment_variable: {
+							$select: ['name', 'value'],
+						},
+						service_label: {
+							$select: ['label_name', 'value'],
+						},
+					},
+				},
+			},
+		},
+	}) as Promise<AnyObject[]>;
+
+// Builds the target state of a device running several applications, keyed by
+// the uuid of the device. Any one of them can be a host application, which the
+// device variables don't apply to
+const buildStateV3 = (
+	req: Request,
+	tx: Tx,
+	uuid: string,
+	canApplyUpdates: boolean,
+): Promise<AnyObject> =>
+	stateV3Query({ uuid }, undefined, { req, tx }).then(
+		([device]: AnyObject[]) => {
+			if (!device) {
+				throw new UnauthorizedError();
+			}
+			// The device cannot read the other applications it runs, like the host one
+			const rootApiTx = resinApi.clone({ passthrough: { req: root, tx } });
+
+			const ownAppId: number | undefined = _.get(device, [
+				'belongs_to__application',
+				'__id',
+			]);
+			const appIds = _.uniq(
+				_.compact([
+					ownAppId,
+					..._.map(device.device_application, 'runs__application.__id'),
+				]),
+			);
+			const pinnedRelease: AnyObject | undefined =
+				device.should_be_running__release[0];
+
+			return getStateV3Applications(rootApiTx, appIds).then(apps => {
+				const isHost = (app: AnyObject) =>
+					_.get(app, ['application_type', 0, 'is_host_os'], false);
+				// Device config overrides the user applications, which override the host
+				const [hostApps, userApps] = _.partition(apps, isHost);
+
+				const config: Dictionary<string> = {};
+				[...hostApps, ...userApps].forEach(app => {
+					varListInsert(app.application_config_variable, config);
+				});
+				varListInsert(device.device_config_variable, config);
+				filterDeviceConfig(config, device.os_version);
+				setMinPollInterval(config);
+
+				return Promise.map(apps, app => {
+					// Pinning the device, as well as holding it back on the release it is
+					// on outside of its maintenance window, only applies to the
+					// application it belongs to
+					const getTargetRelease = () =>
+						app.id === ownAppId && pinnedRelease != null
+							? releaseFromApp(rootApiTx, {
+									id: app.id,
+									commit: pinnedRelease.commit,
+							  })
+							: releaseFromApp(rootApiTx, app);
+					const getRelease =
+						app.id === ownAppId
+							? keepCurrentRelease(
+									rootApiTx,
+									app.id,
+									device,
+									canApplyUpdates,
+									getTargetRelease,
+							  )
+							: getTargetRelease();
+					return getRelease.then(release => {
+						const services: AnyObject = {};
+						const composition =
+							release != null ? parseComposition(release) : undefined;
+						if (release != null) {
+							(release.contains__image as AnyObject[]).forEach(ipr => {
+								const image = ipr.image[0];
+								const svc = _.find(
+									app.service as AnyObject[],
+									({ id }) => id === image.is_a_build_of__service.__id,
+								);
+								if (svc == null) {
+									throw new Error('Could not find service');
+								}
+								// Only the services of the application the device belongs to
+								// are guaranteed to be installed
+								const si = _.find(
+									device.service_install as AnyObject[],
+									({ installs__service }) => installs__service.__id === svc.id,
+								);
+								services[svc.id] = buildServiceState(
+									ipr,
+									svc,
+									[
+										ipr.image_environment_variable,
+										app.application_environment_variable,
+										svc.service_environment_variable,
+										isHost(app) ? [] : device.device_environment_variable,
+										si != null ? si.device_service_environment_variable : [],
+									],
+									config,
+									composition,
+								);
+							});
+						}
+						return {
+							id: app.id,
+							name: app.app_name,
+							is_host: isHost(app),
+							commit: release == null ? undefined : release.commit,
+							releaseId: release == null ? undefined : release.id,
+							services,
+							volumes: composition != null ? composition.volumes || {} : {},
+							networks: composition != null ? composition.networks || {} : {},
+						};
+					});
+				}).then(appStates => ({
+					[uuid]: {
 						name: device.device_name,
 						config,
-						apps: {
-							[parentApp.id]: {
-								name: parentApp.app_name,
-								commit: release == null ? undefined : release.commit,
-								releaseId: release == null ? undefined : release.id,
-								services,
-								volumes,
-								networks,
+						apps: _.keyBy(appStates, 'id'),
+					},
+				}));
+			});
+		},
+	);
+
+interface TargetState extends DeviceState {
+	deviceId: number;
+}
+
+type StateBuilder = (
+	req: Request,
+	tx: Tx,
+	uuid: string,
+	canApplyUpdates: boolean,
+) => Promise<AnyObject>;
+
+const getTargetState = (
+	req: Request,
+	uuid: string,
+	version: string,
+	build: StateBuilder,
+): Promise<TargetState> =>
+	Promise.resolve(
+		db.readTransaction(tx =>
+			// Make sure the device is accessible before serving its cached state
+			resinApi
+				.get({
+					resource: 'device',
+					passthrough: { req, tx },
+					options: {
+						$select: [
+							'id',
+							'is_on__commit',
+							'maintenance_window',
+							'maintenance_timezone',
+						],
+						$filter: { uuid },
+						$expand: {
+							belongs_to__application: {
+								$select: ['maintenance_window', 'maintenance_timezone'],
 							},
 						},
-					};
-
-					const dependent = {
-						apps: {} as AnyObject,
-						devices: {} as AnyObject,
-					};
+					},
+				})
+				.then(([device]: AnyObject[]) => {
+					if (device == null) {
+						throw new UnauthorizedError();
+					}
+					const canUpdate = canApplyUpdates(
+						device,
+						device.belongs_to__application[0],
+					);
+					// The states held back outside of the maintenance window are cached
+					// separately, so that the window opening shows up straight away, and
+					// for the commit they hold the device on, which isn't one of the
+					// fields that invalidate the cached states
+					return getDeviceState(
+						device.id,
+						canUpdate ? version : `${version}:held:${device.is_on__commit}`,
+						() => build(req, tx, uuid, canUpdate),
+					).then(deviceState => ({ ...deviceState, deviceId: device.id }));
+				}),
+		),
+	);
 
-					const depAppCache: Dictionary<{
-						release?: AnyObject;
-						application_environment_variable: Array<{
-							name: string;
-							value: string;
-						}>;
-					}> = {};
-
-					return Promise.map(
-						parentApp.is_depended_on_by__application as AnyObject[],
-						depApp =>
-							releaseFromApp(resinApiTx, depApp).then(release => {
-								depAppCache[depApp.id] = {
-									release,
-									application_environment_variable:
-										depApp.application_environment_variable,
-								};
-
-								const config: Dictionary<string> = {};
-								varListInsert(depApp.application_config_variable, config);
-
-								dependent.apps[depApp.id] = {
-									name: depApp.app_name,
-									parentApp: parentApp.id,
-									config,
-								};
-
-								const image = _.get(release, 'contains__image[0].image[0]');
-								if (release != null && image != null) {
-									const depAppState = dependent.apps[depApp.id];
-									depAppState.releaseId = release.id;
-									depAppState.imageId = image.id;
-									depAppState.commit = release.commit;
-									depAppState.image = formatImageLocation(
-										image.is_stored_at__image_location,
-									);
-								}
-							}),
-					).then(() => {
-						(device.manages__device as AnyObject[]).forEach(depDev => {
-							const depAppId: number = depDev.belongs_to__application.__id;
-							const { release, application_environment_variable } = depAppCache[
-								depAppId
-							];
+const getStateWait = (req: Request): number => {
+	if (req.query.wait == null) {
+		return 0;
+	}
+	const wait = checkInt(req.query.wait);
+	if (wait === false || wait < 0) {
+		throw new BadRequestError(`Invalid 'wait' parameter`);
+	}
+	return Math.min(wait * 1000, MAX_STATE_WAIT);
+};
 
-							const config: Dictionary<string> = {};
-							varListInsert(depDev.device_config_variable, config);
+// Resolves to the target state once it differs from the current one, or to the
+// current one if it doesn't change in time or the request goes away
+const waitForStateChange = (
+	res: Response,
+	current: TargetState,
+	wait: number,
+	getState: () => Promise<TargetState>,
+): Promise<TargetState> =>
+	new Promise<TargetState>((resolve, reject) => {
+		let finished = false;
+		const finish = () => {
+			finished = true;
+			clearTimeout(timer);
+			res.removeListener('close', giveUp);
+			unsubscribeFromStateChanges(current.deviceId, checkState);
+		};
+		const giveUp = () => {
+			finish();
+			resolve(current);
+		};
+		// Changes are signalled for anything the state is built from, so the
+		// state itself may still be the same
+		const checkState = () => {
+			getState()
+				.then(target => {
+					if (!finished && target.etag !== current.etag) {
+						finish();
+						resolve(target);
+					}
+				})
+				.catch(err => {
+					if (!finished) {
+						finish();
+						reject(err);
+					}
+				});
+		};
+		const timer = setTimeout(giveUp, wait);
+		res.on('close', giveUp);
+		subscribeToStateChanges(current.deviceId, checkState);
+		// The state might have changed before we subscribed
+		checkState();
+	});
 
-							const ipr = _.get(release, 'contains__image[0]');
-							const image = _.get(ipr, 'image[0]');
-							const svcInstall = serviceInstallFromImage(depDev, image);
+// Supervisors that already have the target state, as told by the If-None-Match
+// header, can ask to `wait` up to that many seconds for it to change before
+// the 304 response, so that they pick up changes without polling often
+const createStateHandler = (
+	version: string,
+	build: StateBuilder,
+): RequestHandler => (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
 
-							const environment: Dictionary<string> = {};
-							if (ipr != null) {
-								varListInsert(ipr.image_environment_variable, environment);
-							}
+	const getState = () => getTargetState(req, uuid, version, build);
+	Promise.try(() => {
+		const wait = getStateWait(req);
+		return getState().then(target => {
+			res.set('ETag', target.etag);
+			if (wait === 0 || !req.fresh) {
+				return target;
+			}
+			// Don't let the connection time out while waiting, and give it back its
+			// own timeout once done, as it may be kept alive for other requests
+			const { timeout = 0 } = req.socket as Socket & { timeout?: number };
+			req.socket.setTimeout(wait + STATE_WAIT_TIMEOUT_MARGIN);
+			res.once('finish', () => {
+				req.socket.setTimeout(timeout);
+			});
+			return waitForStateChange(res, target, wait, getState);
+		});
+	})
+		.then(({ etag, state: targetState }) => {
+			res.set('ETag', etag);
+			// Supervisors that already have the target state get an empty response
+			if (req.fresh) {
+				res.status(304).end();
+				return;
+			}
+			res.json(targetState);
+		})
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			captureException(err, 'Error getting device state', { req });
+			res.sendStatus(500);
+		});
+};
 
-							varListInsert(application_environment_variable, environment);
-							if (
-								svcInstall != null &&
-								svcInstall.service != null &&
-								svcInstall.service[0] != null
-							) {
-								varListInsert(
-									svcInstall.service[0].service_environment_variable,
-									environment,
-								);
-							}
+export const state = createStateHandler('v2', buildState);
+export const stateV3 = createStateHandler('v3', buildStateV3);
 
-							varListInsert(depDev.device_environment_variable, environment);
-							if (svcInstall != null) {
-								varListInsert(
-									svcInstall.device_service_environment_variable,
-									environment,
-								);
-							}
+// Compares the target state of the device against the state it last reported,
+// to tell why it isn't up to date yet
+export const stateDiff: RequestHandler = (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
 
-							dependent.devices[depDev.uuid] = {
-								name: depDev.device_name,
-								apps: {
-									[depAppId]: {
-										config,
-										environment,
-									},
+	getTargetState(req, uuid, 'v2', buildState)
+		.then(target =>
+			resinApi
+				.get({
+					resource: 'device',
+					id: target.deviceId,
+					passthrough: { req },
+					options: {
+						$select: ['is_on__commit', 'os_version'],
+						$expand: {
+							image_install: {
+								$select: ['installs__image', 'status', 'download_progress'],
+								$filter: {
+									$not: { status: 'deleted' },
 								},
-							};
-						});
+							},
+						},
+					},
+				})
+				.then((device: AnyObject) => {
+					if (device == null) {
+						throw new UnauthorizedError();
+					}
+					res.json(getStateDiff(target.state, device));
+				}),
+		)
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			captureException(err, 'Error getting device state diff', { req });
+			res.sendStatus(500);
+		});
+};
 
-						res.json({
-							local,
-							dependent,
-						});
-					});
-				});
-			},
-		),
-	).catch(err => {
-		if (handleHttpErrors(req, res, err)) {
-			return;
+const getStateHistoryQuery = (req: Request): StateHistoryQuery => {
+	let count = DEFAULT_STATE_HISTORY_COUNT;
+	if (req.query.count != null) {
+		const n = checkInt(req.query.count);
+		if (n === false || n <= 0) {
+			throw new BadRequestError(`Invalid 'count' parameter`);
 		}
-		captureException(err, 'Error getting device state', { req });
-		res.sendStatus(500);
-	});
+		count = Math.min(n, MAX_STATE_HISTORY_COUNT);
+	}
+	const { cursor } = req.query;
+	if (cursor != null && (!_.isString(cursor) || cursor === '')) {
+		throw new BadRequestError(`Invalid 'cursor' parameter`);
+	}
+	return {
+		since: getTimestampParam(req, 'since'),
+		until: getTimestampParam(req, 'until'),
+		count,
+		cursor,
+	};
+};
+
+// The changes to the state of the device over time, the newest first, which
+// can be paged through by passing the cursor of the previous page as `cursor`
+export const stateHistory: RequestHandler = (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
+
+	Promise.try(() => {
+		const query = getStateHistoryQuery(req);
+		return resinApi
+			.get({
+				resource: 'device',
+				passthrough: { req },
+				options: {
+					$select: 'id',
+					$filter: { uuid },
+				},
+			})
+			.then(([device]: AnyObject[]) => {
+				if (device == null) {
+					throw new NotFoundError('No device with uuid ' + uuid);
+				}
+				return getStateHistory(device.id, query);
+			});
+	})
+		.then(({ reports, cursor }) => {
+			// The reports are returned as is, so the cursor of the next page goes in a header
+			if (cursor != null) {
+				res.setHeader(STATE_HISTORY_CURSOR_HEADER, cursor);
+			}
+			res.json(reports);
+		})
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			captureException(err, 'Error getting device state history', { req });
+			res.sendStatus(500);
+		});
+};
+
+// Decommissions the device for good, replying with the record of what was done
+export const decommission: RequestHandler = (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
+
+	Promise.try(() => {
+		const { reason } = req.body;
+		if (reason != null && !_.isString(reason)) {
+			throw new BadRequestError('Reason must be a string');
+		}
+		return decommissionDevice(req, uuid, reason);
+	})
+		.then(tombstone => {
+			res.json(tombstone);
+		})
+		.catch(err => {
+			if (handleHttpErrors(req, res, err)) {
+				return;
+			}
+			captureException(err, 'Error decommissioning device', { req });
+			res.sendStatus(500);
+		});
 };
 
 const upsertImageInstall = (
@@ -765,30 +1296,81 @@ const validPatchFields = [
 	'api_port',
 	'api_secret',
 	'logs_channel',
+	...METRIC_FIELDS,
 ];
 
-export const statePatch: RequestHandler = (req, res) => {
-	const uuid = req.param('uuid');
-	if (!uuid) {
-		return res.send(400);
-	}
+// Devices can only install the images of the application they belong to, so
+// the images of the other applications they run are installed with full
+// privileges, once the releases are known to be of any of those applications
+const getImageInstallApi = (
+	api: PinejsClient,
+	deviceId: number,
+	releaseIds: number[],
+): Promise<PinejsClient> => {
+	const rootApi = api.clone({ passthrough: { req: root } });
+	return rootApi
+		.get({
+			resource: 'device',
+			id: deviceId,
+			options: {
+				$select: 'belongs_to__application',
+				$expand: {
+					device_application: {
+						$select: 'runs__application',
+					},
+				},
+			},
+		})
+		.then((device: AnyObject) => {
+			const appIds = _.compact([
+				_.get(device, ['belongs_to__application', '__id']),
+				..._.map(device.device_application, 'runs__application.__id'),
+			]);
+			return rootApi.get({
+				resource: 'release/$count',
+				options: {
+					$filter: {
+						id: { $in: releaseIds },
+						belongs_to__application: { $in: appIds },
+					},
+				},
+			});
+		})
+		.then((count: number) => {
+			if (count !== _.uniq(releaseIds).length) {
+				throw new BadRequestError('Invalid release ID value in request');
+			}
+			return rootApi;
+		});
+};
 
+// Stores the state reported by the device, where `local` is the state of the
+// device itself and `dependent` the one of the devices it manages
+const patchState = (
+	req: Request,
+	res: Response,
+	uuid: string,
+	local: AnyObject | undefined,
+	dependent: AnyObject | undefined,
+	runsSeveralApps = false,
+) => {
 	const custom: AnyObject = {}; // shove custom values here to make them available to the hooks
 
-	const values = req.body;
 	// firstly we need to extract all fields which should be sent to the device
 	// resource which is everything but the service entries
 
-	// Every field that is passed to the endpoint is the same, except
-	// device name
-	const { local, dependent } = values;
-
 	let apps: undefined | AnyObject[];
 	let deviceBody: undefined | AnyObject;
 	if (local != null) {
 		apps = local.apps;
 
 		deviceBody = _.pick(local, validPatchFields);
+		// The metrics are stored as integers, but may be reported with decimals
+		for (const field of METRIC_FIELDS) {
+			if (_.isNumber(deviceBody[field])) {
+				deviceBody[field] = Math.round(deviceBody[field]);
+			}
+		}
 
 		if (local.name != null) {
 			deviceBody.device_name = local.name;
@@ -825,7 +1407,16 @@ export const statePatch: RequestHandler = (req, res) => {
 								resource: 'device',
 								id: device.id,
 								options: {
-									$filter: { $not: deviceBody },
+									// Only patch what changes, bearing in mind that the fields which
+									// aren't set yet, like the metrics of a new device, equal nothing
+									$filter: {
+										$or: [
+											{ $not: deviceBody },
+											..._.map(deviceBody, (_value, field) => ({
+												[field]: null,
+											})),
+										],
+									},
 								},
 								body: deviceBody,
 							}),
@@ -834,6 +1425,12 @@ export const statePatch: RequestHandler = (req, res) => {
 
 					if (apps != null) {
 						const imageIds: number[] = [];
+						const imageInstalls: Array<{
+							imageId: number;
+							releaseId: number;
+							status: string;
+							download_progress?: number;
+						}> = [];
 
 						_.each(apps, app => {
 							_.each(app.services, (svc, imageIdStr) => {
@@ -853,18 +1450,37 @@ export const statePatch: RequestHandler = (req, res) => {
 									);
 								}
 
-								waitPromises.push(
-									upsertImageInstall(
+								imageInstalls.push({
+									imageId,
+									releaseId,
+									status,
+									download_progress,
+								});
+							});
+						});
+
+						const imageInstallApi =
+							runsSeveralApps && imageInstalls.length !== 0
+								? getImageInstallApi(
 										resinApiTx,
-										imageId,
 										device.id,
-										status,
-										releaseId,
-										download_progress,
+										_.map(imageInstalls, 'releaseId'),
+								  )
+								: Promise.resolve(resinApiTx);
+						waitPromises.push(
+							imageInstallApi.then(api =>
+								Promise.map(imageInstalls, imageInstall =>
+									upsertImageInstall(
+										api,
+										imageInstall.imageId,
+										device.id,
+										imageInstall.status,
+										imageInstall.releaseId,
+										imageInstall.download_progress,
 									),
-								);
-							});
-						});
+								),
+							),
+						);
 
 						// Get access to a root api, as images shouldn't be allowed to change
 						// the service_install values
@@ -929,3 +1545,45 @@ export const statePatch: RequestHandler = (req, res) => {
 			res.sendStatus(500);
 		});
 };
+
+export const statePatch: RequestHandler = (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
+
+	const values = req.body;
+	const errors = validateStateV2Patch(values);
+	if (errors.length !== 0) {
+		// Lenient mode keeps accepting the reports that don't match the schema, as
+		// they did before, so that any supervisors sending those can be tracked down
+		if (DEVICE_STATE_VALIDATION !== 'lenient') {
+			return res.status(400).json({
+				message: 'Invalid state report',
+				schema_version: STATE_PATCH_SCHEMA_VERSION,
+				errors,
+			});
+		}
+		console.warn(
+			`Invalid state report from device ${uuid}: ${errors
+				.map(({ property, message }) => `${property} ${message}`)
+				.join(', ')}`,
+		);
+	}
+	// Every field that is passed to the endpoint is the same, except
+	// device name
+	const { local, dependent } = values;
+
+	return patchState(req, res, uuid, local, dependent);
+};
+
+// The v3 report is keyed by the uuid of the device, with the same state as the
+// `local` one of v2, including the images of every application the device runs
+export const statePatchV3: RequestHandler = (req, res) => {
+	const uuid = req.param('uuid');
+	if (!uuid) {
+		return res.send(400);
+	}
+
+	return patchState(req, res, uuid, req.body[uuid], undefined, true);
+};
@@ -9,6 +9,7 @@ import {
 
 import {
 	SECONDS,
+	MINUTES,
 	HOURS,
 	SECONDS_PER_HOUR,
 	createRateLimitMiddleware,
@@ -36,12 +37,24 @@ export const deviceLogsRateLimiter = createRateLimitMiddleware(
 	},
 );
 
+// Rate limit for claiming pre-registered devices, which a whole factory may do
+// from the same IP, a maximum of 60 claims every minute
+export const deviceClaimRateLimiter = createRateLimitMiddleware({
+	freeRetries: 59,
+	minWait: 1 * MINUTES,
+	maxWait: 1 * MINUTES,
+	lifetime: 60, // reset counter after 1 minute (from the first claim of the window)
+	refreshTimeoutOnRequest: false,
+});
+
 import * as access from '../routes/access';
 import * as apiKeys from '../routes/api-keys';
 import * as applications from '../routes/applications';
 import * as config from '../routes/config';
 import * as deviceTypes from '../routes/device-types';
 import * as deviceLogs from '../routes/device-logs';
+import * as deviceMetrics from '../routes/device-metrics';
+import * as devicePreRegistrations from '../routes/device-pre-registrations';
 import * as devices from '../routes/devices';
 import * as os from '../routes/os';
 import * as services from '../routes/services';
@@ -60,6 +73,31 @@ export const setup = (app: Application, onLogin: SetupOptions['onLogin']) => {
 	app.get('/user/v1/whoami', authorized, session.whoami);
 
 	app.post('/device/register', apiKeyMiddleware, devices.register);
+	app.post(
+		'/device/v1/claim',
+		deviceClaimRateLimiter(),
+		devicePreRegistrations.claim,
+	);
+	app.post(
+		'/application/v1/:appId/pre-registrations',
+		authorized,
+		devicePreRegistrations.create,
+	);
+	app.get(
+		'/application/v1/:appId/pre-registrations',
+		authorized,
+		devicePreRegistrations.list,
+	);
+	app.delete(
+		'/application/v1/:appId/pre-registrations',
+		authorized,
+		devicePreRegistrations.revoke,
+	);
+	app.delete(
+		'/application/v1/:appId/pre-registrations/:uuid',
+		authorized,
+		devicePreRegistrations.revokeDevice,
+	);
 	app.get(
 		'/device/v2/:uuid/state',
 		gracefullyDenyDeletedDevices,
@@ -72,7 +110,35 @@ export const setup = (app: Application, onLogin: SetupOptions['onLogin']) => {
 		apiKeyMiddleware,
 		devices.statePatch,
 	);
+	app.get('/device/v2/:uuid/state/diff', authorized, devices.stateDiff);
+	app.get('/device/v2/:uuid/history', authorized, devices.stateHistory);
+	app.post('/device/v2/:uuid/decommission', authorized, devices.decommission);
+	app.get(
+		'/device/v3/:uuid/state',
+		gracefullyDenyDeletedDevices,
+		apiKeyMiddleware,
+		devices.stateV3,
+	);
+	app.patch(
+		'/device/v3/:uuid/state',
+		gracefullyDenyDeletedDevices,
+		apiKeyMiddleware,
+		devices.statePatchV3,
+	);
 	app.get('/device/v2/:uuid/logs', authorized, deviceLogs.read);
+	app.get('/device/v2/:uuid/logs/export', authorized, deviceLogs.exportLogs);
+	app.get('/device/v2/:uuid/logs/stats', authorized, deviceLogs.stats);
+	app.get(
+		'/application/v1/:appId/logs',
+		authorized,
+		deviceLogs.readApplication,
+	);
+	app.get('/device/v2/:uuid/metrics', authorized, deviceMetrics.readDevice);
+	app.get(
+		'/application/v1/:appId/metrics',
+		authorized,
+		deviceMetrics.readApplication,
+	);
 	app.post(
 		'/device/v2/:uuid/logs',
 		deviceLogsRateLimiter('params.uuid'),
@@ -84,6 +150,12 @@ export const setup = (app: Application, onLogin: SetupOptions['onLogin']) => {
 		apiKeyMiddleware,
 		deviceLogs.storeStream,
 	);
+	app.get(
+		'/metrics/v1/device-logs',
+		authorized,
+		permissionRequired('admin.device_logs_metrics'),
+		deviceLogs.metrics,
+	);
 	app.post(
 		'/dependent/v1/scan',
 		apiKeyMiddleware,
@@ -117,6 +189,12 @@ export const setup = (app: Application, onLogin: SetupOptions['onLogin']) => {
 		apiKeyMiddleware,
 		apiKeys.createDeviceApiKey,
 	);
+	app.post(
+		'/api-key/device/v1/:uuid/rotate',
+		gracefullyDenyDeletedDevices,
+		apiKeyMiddleware,
+		apiKeys.rotateDeviceApiKey,
+	);
 
 	app.get(
 		'/services/vpn/auth/:device_uuid',
@@ -0,0 +1,66 @@
+import 'mocha';
+import { expect } from 'chai';
+
+import { decodeCursor, encodeCursor } from '../src/lib/device-logs/cursor';
+import { toSafeRegExp } from '../src/lib/device-logs/filters';
+
+describe('Device logs', () => {
+	describe('toSafeRegExp', () => {
+		it('should compile safe patterns', () => {
+			for (const pattern of [
+				'error',
+				'^\\[\\w+\\] .*failed$',
+				'(a|b)*',
+				'\\d+(\\.\\d+)?',
+				'[(+)]+',
+			]) {
+				expect(toSafeRegExp(pattern)).to.be.instanceOf(RegExp);
+			}
+		});
+
+		it('should keep the flags', () => {
+			expect(toSafeRegExp('secret', 'g').flags).to.equal('g');
+		});
+
+		it('should reject invalid patterns', () => {
+			expect(() => toSafeRegExp('(unclosed')).to.throw();
+		});
+
+		it('should reject overlong patterns', () => {
+			expect(() => toSafeRegExp('a'.repeat(257))).to.throw(/longer than/);
+		});
+
+		it('should reject nested quantifiers', () => {
+			for (const pattern of [
+				'(a+)+',
+				'(a*)*b',
+				'((ab)+)*',
+				'(x+x+)+y',
+				'(a{2,})*',
+			]) {
+				expect(() => toSafeRegExp(pattern)).to.throw(/nested quantifiers/);
+			}
+		});
+	});
+
+	describe('cursors', () => {
+		it('should decode the encoded position', () => {
+			const position = { createdAt: 1570000000000, id: '42' };
+			expect(decodeCursor(encodeCursor(position))).to.deep.equal(position);
+		});
+
+		it('should be opaque strings', () => {
+			expect(encodeCursor({ id: '42' })).to.match(/^[A-Za-z0-9+/=]+$/);
+		});
+
+		it('should reject cursors that are not encoded positions', () => {
+			for (const cursor of [
+				'not a cursor',
+				Buffer.from('[1,2]').toString('base64'),
+				Buffer.from('42').toString('base64'),
+			]) {
+				expect(() => decodeCursor(cursor)).to.throw('Invalid cursor');
+			}
+		});
+	});
+});
@@ -0,0 +1,193 @@
+import 'mocha';
+import { expect } from 'chai';
+
+import { getStateDiff } from '../src/lib/device-state-diff';
+import { validateStateV2Patch } from '../src/lib/device-state-schema';
+
+describe('Device state', () => {
+	describe('getStateDiff', () => {
+		const targetState = {
+			local: {
+				apps: {
+					1: {
+						commit: 'abcdef',
+						services: {
+							11: { imageId: 101, serviceName: 'main' },
+							12: { imageId: 102, serviceName: 'worker' },
+							13: { imageId: 103, serviceName: 'proxy' },
+							14: { imageId: 104, serviceName: 'db' },
+						},
+					},
+				},
+			},
+		};
+
+		const imageInstall = (
+			imageId: number,
+			status: string,
+			progress?: number,
+		) => ({
+			installs__image: { __id: imageId },
+			status,
+			download_progress: progress,
+		});
+
+		it('should compare each service against its image install', () => {
+			const diff = getStateDiff(targetState, {
+				is_on__commit: 'abcdef',
+				os_version: 'balenaOS 2.38.0',
+				image_install: [
+					imageInstall(101, 'Running'),
+					imageInstall(102, 'Downloading', 50),
+					imageInstall(103, 'Download failed'),
+				],
+			});
+			expect(diff.commit).to.deep.equal({
+				target: 'abcdef',
+				current: 'abcdef',
+				is_matching: true,
+			});
+			expect(diff.os_version).to.equal('balenaOS 2.38.0');
+			expect(diff.services.main).to.deep.equal({
+				serviceId: 11,
+				imageId: 101,
+				state: 'matching',
+				status: 'Running',
+				download_progress: undefined,
+			});
+			expect(diff.services.worker).to.have.property('state', 'downloading');
+			expect(diff.services.worker).to.have.property('download_progress', 50);
+			expect(diff.services.proxy).to.have.property('state', 'failed');
+			expect(diff.services.db).to.have.property('state', 'pending');
+			expect(diff.summary).to.deep.equal({
+				pending: 1,
+				downloading: 1,
+				failed: 1,
+				matching: 1,
+			});
+		});
+
+		it('should not match a device which has not reported its commit', () => {
+			const diff = getStateDiff(targetState, { image_install: [] });
+			expect(diff.commit).to.deep.equal({
+				target: 'abcdef',
+				current: null,
+				is_matching: false,
+			});
+			expect(diff.os_version).to.equal(null);
+			expect(diff.summary).to.have.property('pending', 4);
+		});
+
+		it('should handle devices without an application', () => {
+			const diff = getStateDiff({ local: { apps: {} } }, { image_install: [] });
+			expect(diff.commit.is_matching).to.equal(false);
+			expect(diff.services).to.deep.equal({});
+		});
+	});
+
+	describe('validateStateV2Patch', () => {
+		const report = (service: AnyObject) => ({
+			local: {
+				status: 'Idle',
+				is_online: true,
+				download_progress: null,
+				apps: {
+					1: {
+						services: {
+							11: service,
+						},
+					},
+				},
+			},
+		});
+
+		it('should accept valid reports', () => {
+			expect(
+				validateStateV2Patch(
+					report({
+						releaseId: 1,
+						status: 'Downloading',
+						download_progress: 50,
+					}),
+				),
+			).to.deep.equal([]);
+		});
+
+		it('should ignore the fields it does not know about', () => {
+			expect(
+				validateStateV2Patch({ local: { unknown: [] }, other: true }),
+			).to.deep.equal([]);
+		});
+
+		it('should reject reports which are not objects', () => {
+			expect(validateStateV2Patch([])).to.deep.equal([
+				{ property: '', message: 'should be object' },
+			]);
+		});
+
+		it('should reject values of the wrong type', () => {
+			for (const releaseId of [true, [], '1', 1.5, null]) {
+				expect(
+					validateStateV2Patch(report({ releaseId, status: 'Running' })),
+				).to.deep.equal([
+					{
+						property: 'local.apps.1.services.11.releaseId',
+						message: 'should be integer',
+					},
+				]);
+			}
+			expect(
+				validateStateV2Patch(
+					report({ releaseId: 1, status: 'Running', download_progress: '500' }),
+				),
+			).to.deep.equal([
+				{
+					property: 'local.apps.1.services.11.download_progress',
+					message: 'should be integer,null',
+				},
+			]);
+		});
+
+		it('should reject values out of range', () => {
+			expect(
+				validateStateV2Patch(
+					report({ releaseId: 1, status: 'Running', download_progress: 500 }),
+				),
+			).to.deep.equal([
+				{
+					property: 'local.apps.1.services.11.download_progress',
+					message: 'should be <= 100',
+				},
+			]);
+			expect(validateStateV2Patch({ local: { api_port: -1 } })).to.deep.equal([
+				{ property: 'local.api_port', message: 'should be >= 0' },
+			]);
+		});
+
+		it('should reject missing required values', () => {
+			expect(validateStateV2Patch(report({}))).to.deep.equal([
+				{
+					property: 'local.apps.1.services.11.releaseId',
+					message: "should have required property 'releaseId'",
+				},
+				{
+					property: 'local.apps.1.services.11.status',
+					message: "should have required property 'status'",
+				},
+			]);
+		});
+
+		it('should reject keys which are not ids', () => {
+			expect(
+				validateStateV2Patch({
+					dependent: { apps: { app: { images: {} } } },
+				}),
+			).to.deep.equal([
+				{
+					property: 'dependent.apps.app',
+					message: 'should NOT have additional properties',
+				},
+			]);
+		});
+	});
+});
@@ -0,0 +1,39 @@
+import 'mocha';
+import { expect } from 'chai';
+
+import { getStageSize, isLastStage } from '../src/lib/release-rollouts';
+
+describe('Release rollouts', () => {
+	describe('getStageSize', () => {
+		it('should grow by the stage percentage of the devices', () => {
+			const rollout = { stage_percentage: 25 };
+			expect(
+				[1, 2, 3, 4].map(stage => getStageSize(rollout, stage, 100)),
+			).to.deep.equal([25, 50, 75, 100]);
+		});
+
+		it('should round up to cover at least one device', () => {
+			const rollout = { stage_percentage: 10 };
+			expect(getStageSize(rollout, 1, 3)).to.equal(1);
+			expect(getStageSize(rollout, 1, 15)).to.equal(2);
+		});
+
+		it('should never go over all of the devices', () => {
+			const rollout = { stage_percentage: 40 };
+			expect(getStageSize(rollout, 3, 10)).to.equal(10);
+		});
+
+		it('should be empty without devices', () => {
+			expect(getStageSize({ stage_percentage: 50 }, 1, 0)).to.equal(0);
+		});
+	});
+
+	describe('isLastStage', () => {
+		it('should be the stage covering all of the devices', () => {
+			const rollout = { stage_percentage: 30 };
+			expect(isLastStage(rollout, 3)).to.equal(false);
+			expect(isLastStage(rollout, 4)).to.equal(true);
+			expect(isLastStage({ stage_percentage: 100 }, 1)).to.equal(true);
+		});
+	});
+});
@@ -0,0 +1,131 @@
+import 'mocha';
+import { expect } from 'chai';
+
+import {
+	canApplyUpdates,
+	checkMaintenanceWindow,
+} from '../src/lib/maintenance-windows';
+
+describe('Maintenance windows', () => {
+	describe('checkMaintenanceWindow', () => {
+		it('should accept valid windows and timezones', () => {
+			for (const maintenance_window of [
+				'* * * * *',
+				'* 0-5 * * 1-5',
+				'*/15 22,23 1 1-12/2 0,7',
+			]) {
+				expect(() =>
+					checkMaintenanceWindow({
+						maintenance_window,
+						maintenance_timezone: 'Europe/Athens',
+					}),
+				).not.to.throw();
+			}
+		});
+
+		it('should reject invalid windows', () => {
+			for (const maintenance_window of [
+				'* * * *',
+				'* * * * * *',
+				'60 * * * *',
+				'* 24 * * *',
+				'* * 0 * *',
+				'* * * 13 *',
+				'* * * * 8',
+				'* 5-1 * * *',
+				'*/0 * * * *',
+				'* 1-2-3 * * *',
+				'a * * * *',
+			]) {
+				expect(() => checkMaintenanceWindow({ maintenance_window })).to.throw(
+					'Invalid maintenance window',
+				);
+			}
+		});
+
+		it('should reject invalid timezones', () => {
+			expect(() =>
+				checkMaintenanceWindow({ maintenance_timezone: 'Nowhere/Atlantis' }),
+			).to.throw('Invalid maintenance timezone');
+		});
+	});
+
+	describe('canApplyUpdates', () => {
+		// A Wednesday
+		const date = new Date('2019-10-16T03:30:00Z');
+
+		it('should always allow updates without a window', () => {
+			expect(canApplyUpdates({}, undefined, date)).to.equal(true);
+			expect(canApplyUpdates({}, {}, date)).to.equal(true);
+		});
+
+		it('should only allow updates within the window', () => {
+			expect(
+				canApplyUpdates({ maintenance_window: '* 0-5 * * *' }, undefined, date),
+			).to.equal(true);
+			expect(
+				canApplyUpdates(
+					{ maintenance_window: '* 6-23 * * *' },
+					undefined,
+					date,
+				),
+			).to.equal(false);
+			expect(
+				canApplyUpdates(
+					{ maintenance_window: '0-29 3 * * *' },
+					undefined,
+					date,
+				),
+			).to.equal(false);
+		});
+
+		it('should read the window in the timezone', () => {
+			const device = {
+				maintenance_window: '* 0-5 * * *',
+				maintenance_timezone: 'America/New_York',
+			};
+			expect(canApplyUpdates(device, undefined, date)).to.equal(false);
+		});
+
+		it('should let the device window take precedence', () => {
+			const app = {
+				maintenance_window: '* 6-23 * * *',
+				maintenance_timezone: 'Asia/Tokyo',
+			};
+			expect(canApplyUpdates({}, app, date)).to.equal(true);
+			expect(
+				canApplyUpdates({ maintenance_window: '* 3 * * *' }, app, date),
+			).to.equal(false);
+			expect(
+				canApplyUpdates(
+					{ maintenance_window: '* 3 * * *', maintenance_timezone: 'UTC' },
+					app,
+					date,
+				),
+			).to.equal(true);
+		});
+
+		it('should match either day when both are restricted', () => {
+			// The 16th and a Wednesday
+			expect(
+				canApplyUpdates({ maintenance_window: '* * 1 * 3' }, undefined, date),
+			).to.equal(true);
+			expect(
+				canApplyUpdates({ maintenance_window: '* * 16 * 1' }, undefined, date),
+			).to.equal(true);
+			expect(
+				canApplyUpdates({ maintenance_window: '* * 1 * 1' }, undefined, date),
+			).to.equal(false);
+			expect(
+				canApplyUpdates({ maintenance_window: '* * * * 1-2' }, undefined, date),
+			).to.equal(false);
+		});
+
+		it('should treat 7 as Sunday', () => {
+			const sunday = new Date('2019-10-20T12:00:00Z');
+			expect(
+				canApplyUpdates({ maintenance_window: '* * * * 7' }, undefined, sunday),
+			).to.equal(true);
+		});
+	});
+});
@@ -0,0 +1,56 @@
+import 'mocha';
+import { expect } from 'chai';
+
+import {
+	hashClaimCode,
+	parseSerialNumbers,
+} from '../src/lib/device-pre-registrations';
+
+describe('Device pre-registrations', () => {
+	describe('parseSerialNumbers', () => {
+		it('should read the first column of each row', () => {
+			expect(parseSerialNumbers('SN1,first\nSN2,second\r\nSN3')).to.deep.equal([
+				'SN1',
+				'SN2',
+				'SN3',
+			]);
+		});
+
+		it('should leave out a header row', () => {
+			const csv = 'Serial Number,Note\nSN1,first';
+			expect(parseSerialNumbers(csv)).to.deep.equal(['SN1']);
+			expect(parseSerialNumbers('\nserial\nSN1')).to.deep.equal(['SN1']);
+		});
+
+		it('should only leave out the first row', () => {
+			expect(parseSerialNumbers('SN1\nserial2')).to.deep.equal([
+				'SN1',
+				'serial2',
+			]);
+		});
+
+		it('should unquote and trim the serial numbers', () => {
+			expect(parseSerialNumbers(' "SN1" ,x\n" SN2 "')).to.deep.equal([
+				'SN1',
+				'SN2',
+			]);
+		});
+
+		it('should skip empty rows', () => {
+			expect(parseSerialNumbers('SN1\n\n ,x\n""\nSN2\n')).to.deep.equal([
+				'SN1',
+				'SN2',
+			]);
+			expect(parseSerialNumbers('')).to.deep.equal([]);
+		});
+	});
+
+	describe('hashClaimCode', () => {
+		it('should not store the claim codes as they are', () => {
+			const hash = hashClaimCode('claim code');
+			expect(hash).to.not.equal('claim code');
+			expect(hashClaimCode('claim code')).to.equal(hash);
+			expect(hashClaimCode('other code')).to.not.equal(hash);
+		});
+	});
+});
@@ -0,0 +1,177 @@
+import 'mocha';
+import * as Promise from 'bluebird';
+import { app } from '../init';
+import { expect } from 'chai';
+
+import {
+	createApplication,
+	createDevice,
+	createUser,
+	TestDevice,
+	TestUser,
+} from './test-lib/fixtures';
+import supertest = require('./test-lib/supertest');
+
+describe('Device state cache', () => {
+	let user: TestUser;
+	let application: AnyObject;
+	let device: TestDevice;
+
+	const getState = (d: TestDevice, etag?: string) => {
+		const req = supertest(app, d.apiKey).get(`/device/v2/${d.uuid}/state`);
+		if (etag != null) {
+			req.set('If-None-Match', etag);
+		}
+		return req;
+	};
+
+	before(() =>
+		createUser()
+			.then(u => {
+				user = u;
+				return createApplication(app, user);
+			})
+			.then(a => {
+				application = a;
+				return createDevice(app, user, application.id);
+			})
+			.then(d => {
+				device = d;
+			}),
+	);
+
+	it('should not resend an unchanged state', () =>
+		getState(device)
+			.expect(200)
+			.then(res => {
+				expect(res.header).to.have.property('etag');
+				return getState(device, res.header.etag).expect(304);
+			}));
+
+	it('should resend the state once a variable of the device changes', () =>
+		getState(device)
+			.expect(200)
+			.then(({ header: { etag } }) =>
+				supertest(app, user)
+					.post('/resin/device_config_variable')
+					.send({
+						device: device.id,
+						name: 'RESIN_TEST_CONFIG',
+						value: 'value',
+					})
+					.expect(201)
+					.then(() => getState(device, etag).expect(200))
+					.then(res => {
+						expect(res.header.etag).to.not.equal(etag);
+						expect(res.body.local.config).to.have.property(
+							'RESIN_TEST_CONFIG',
+							'value',
+						);
+					}),
+			));
+
+	it('should wait for the state to change when asked to', () =>
+		getState(device)
+			.expect(200)
+			.then(({ header: { etag } }) =>
+				Promise.all([
+					getState(device, etag)
+						.query({ wait: 10 })
+						.expect(200),
+					Promise.delay(500).then(() =>
+						supertest(app, user)
+							.post('/resin/device_config_variable')
+							.send({
+								device: device.id,
+								name: 'RESIN_TEST_WAIT',
+								value: 'value',
+							})
+							.expect(201),
+					),
+				]).then(([res]) => {
+					expect(res.header.etag).to.not.equal(etag);
+					expect(res.body.local.config).to.have.property(
+						'RESIN_TEST_WAIT',
+						'value',
+					);
+				}),
+			));
+
+	it('should resend nothing when the state does not change in time', () =>
+		getState(device)
+			.expect(200)
+			.then(({ header: { etag } }) =>
+				getState(device, etag)
+					.query({ wait: 1 })
+					.expect(304),
+			));
+
+	describe('of gateways', () => {
+		let dependentApplication: AnyObject;
+		let gateway: TestDevice;
+		let dependentDevice: TestDevice;
+
+		before(() =>
+			createApplication(app, user, {
+				depends_on__application: application.id,
+			})
+				.then(a => {
+					dependentApplication = a;
+					return createDevice(app, user, application.id);
+				})
+				.then(d => {
+					gateway = d;
+					return createDevice(app, user, dependentApplication.id, {
+						is_managed_by__device: gateway.id,
+					});
+				})
+				.then(d => {
+					dependentDevice = d;
+				}),
+		);
+
+		it('should resend the state once a variable of a dependent application changes', () =>
+			getState(gateway)
+				.expect(200)
+				.then(({ header: { etag } }) =>
+					getState(gateway, etag)
+						.expect(304)
+						.then(() =>
+							supertest(app, user)
+								.post('/resin/application_config_variable')
+								.send({
+									application: dependentApplication.id,
+									name: 'RESIN_TEST_CONFIG',
+									value: 'value',
+								})
+								.expect(201),
+						)
+						.then(() => getState(gateway, etag).expect(200))
+						.then(res => {
+							expect(res.header.etag).to.not.equal(etag);
+							expect(
+								res.body.dependent.apps[dependentApplication.id].config,
+							).to.deep.equal({ RESIN_TEST_CONFIG: 'value' });
+						}),
+				));
+
+		it('should resend the state once a variable of a dependent device changes', () =>
+			getState(gateway)
+				.expect(200)
+				.then(({ header: { etag } }) =>
+					supertest(app, user)
+						.post('/resin/device_environment_variable')
+						.send({ device: dependentDevice.id, name: 'FOO', value: 'bar' })
+						.expect(201)
+						.then(() => getState(gateway, etag).expect(200))
+						.then(res => {
+							expect(res.header.etag).to.not.equal(etag);
+							expect(
+								res.body.dependent.devices[dependentDevice.uuid].apps[
+									dependentApplication.id
+								].environment,
+							).to.deep.equal({ FOO: 'bar' });
+						}),
+				));
+	});
+});
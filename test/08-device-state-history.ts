@@ -0,0 +1,65 @@
+import 'mocha';
+import * as Promise from 'bluebird';
+import { app } from '../init';
+import { expect } from 'chai';
+
+import {
+	createApplication,
+	createDevice,
+	createUser,
+	TestDevice,
+	TestUser,
+} from './test-lib/fixtures';
+import supertest = require('./test-lib/supertest');
+
+describe('Device state history', () => {
+	let user: TestUser;
+	let device: TestDevice;
+
+	before(() =>
+		createUser()
+			.then(u => {
+				user = u;
+				return createApplication(app, user);
+			})
+			.then(application => createDevice(app, user, application.id))
+			.then(d => {
+				device = d;
+				return Promise.mapSeries(['Idle', 'Downloading', 'Idle'], status =>
+					supertest(app, device.apiKey)
+						.patch(`/device/v2/${device.uuid}/state`)
+						.send({ local: { status } })
+						.expect(200),
+				);
+			}),
+	);
+
+	it('should page through the reports, the newest first', () => {
+		const getPage = (cursor?: string) =>
+			supertest(app, user)
+				.get(`/device/v2/${device.uuid}/history`)
+				.query(cursor != null ? { count: 2, cursor } : { count: 2 })
+				.expect(200);
+
+		return getPage().then(firstPage => {
+			expect(firstPage.body).to.have.length(2);
+			const cursor = firstPage.header['x-state-history-cursor'];
+			expect(cursor).to.be.a('string');
+			return getPage(cursor).then(secondPage => {
+				expect(secondPage.header).to.not.have.property(
+					'x-state-history-cursor',
+				);
+				const statuses = [...firstPage.body, ...secondPage.body].map(
+					report => report.changes.status,
+				);
+				expect(statuses).to.deep.equal(['Idle', 'Downloading', 'Idle']);
+			});
+		});
+	});
+
+	it('should reject invalid cursors', () =>
+		supertest(app, user)
+			.get(`/device/v2/${device.uuid}/history`)
+			.query({ cursor: 'not a cursor' })
+			.expect(400));
+});
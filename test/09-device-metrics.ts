@@ -0,0 +1,80 @@
+import 'mocha';
+import * as Promise from 'bluebird';
+import { app } from '../init';
+import { expect } from 'chai';
+
+import {
+	createApplication,
+	createDevice,
+	createUser,
+	TestDevice,
+	TestUser,
+} from './test-lib/fixtures';
+import supertest = require('./test-lib/supertest');
+
+describe('Device metrics', () => {
+	let user: TestUser;
+	let application: AnyObject;
+	let devices: TestDevice[];
+
+	const reportMetrics = (device: TestDevice, metrics: AnyObject) =>
+		supertest(app, device.apiKey)
+			.patch(`/device/v2/${device.uuid}/state`)
+			.send({ local: metrics })
+			.expect(200);
+
+	before(() =>
+		createUser()
+			.then(u => {
+				user = u;
+				return Promise.join(
+					createApplication(app, user),
+					createApplication(app, user),
+				);
+			})
+			.then(([a, otherApplication]) => {
+				application = a;
+				return Promise.join(
+					createDevice(app, user, application.id),
+					createDevice(app, user, application.id),
+					createDevice(app, user, otherApplication.id),
+				);
+			})
+			.then(([cool, hot, other]) => {
+				devices = [cool, hot];
+				return Promise.join(
+					reportMetrics(cool, { cpu_usage: 10, cpu_temp: 40 }),
+					reportMetrics(hot, { cpu_usage: 90, cpu_temp: 80 }),
+					reportMetrics(other, { cpu_usage: 100, cpu_temp: 100 }),
+				);
+			}),
+	);
+
+	it('should aggregate the metrics of the devices of the application', () =>
+		supertest(app, user)
+			.get(`/application/v1/${application.id}/metrics`)
+			.expect(200)
+			.then(({ body }) => {
+				expect(body).to.have.property('device_count', 2);
+				expect(body.history).to.have.length(1);
+				expect(body.history[0]).to.include({
+					device_count: 2,
+					cpu_usage_avg: 50,
+					cpu_usage_max: 90,
+					cpu_temp_max: 80,
+				});
+			}));
+
+	it('should rank the devices of the application by their peaks', () =>
+		supertest(app, user)
+			.get(`/application/v1/${application.id}/metrics`)
+			.expect(200)
+			.then(({ body }) => {
+				const [cool, hot] = devices;
+				expect(body.top.cpu_temp).to.deep.equal([
+					{ id: hot.id, uuid: hot.uuid, value: 80 },
+					{ id: cool.id, uuid: cool.uuid, value: 40 },
+				]);
+				expect(body.top.storage_usage).to.deep.equal([]);
+			}));
+});
@@ -0,0 +1,99 @@
+import 'mocha';
+import * as Promise from 'bluebird';
+import { app } from '../init';
+import { expect } from 'chai';
+
+import { db } from '../src/platform';
+import {
+	createApplication,
+	createDevice,
+	createUser,
+	TestDevice,
+	TestUser,
+} from './test-lib/fixtures';
+import supertest = require('./test-lib/supertest');
+
+describe('Device api key rotation', () => {
+	let user: TestUser;
+	let application: AnyObject;
+
+	const getState = (device: TestDevice, apiKey: string) =>
+		supertest(app, apiKey).get(`/device/v2/${device.uuid}/state`);
+
+	const rotate = (device: TestDevice, apiKey: string) =>
+		supertest(app, apiKey).post(`/api-key/device/v1/${device.uuid}/rotate`);
+
+	const expireRotation = (device: TestDevice) =>
+		db.executeSql(
+			`
+UPDATE "device api key rotation"
+SET "expires at" = $1
+WHERE "device" = $2`,
+			[Date.now() - 1, device.id],
+		);
+
+	before(() =>
+		createUser()
+			.then(u => {
+				user = u;
+				return createApplication(app, user);
+			})
+			.then(a => {
+				application = a;
+			}),
+	);
+
+	it('should keep the old key valid for the grace period', () =>
+		createDevice(app, user, application.id).then(device =>
+			rotate(device, device.apiKey)
+				.expect(200)
+				.then(({ body }) => {
+					expect(body.api_key).to.be.a('string');
+					expect(body.api_key).to.not.equal(device.apiKey);
+					expect(body.expires_at).to.be.above(Date.now());
+					return Promise.all([
+						getState(device, device.apiKey).expect(200),
+						getState(device, body.api_key).expect(200),
+					]);
+				}),
+		));
+
+	it('should reject the old key once the grace period is over', () =>
+		createDevice(app, user, application.id).then(device =>
+			// The key is known not to be rotating before the rotation starts
+			getState(device, device.apiKey)
+				.expect(200)
+				.then(() => rotate(device, device.apiKey).expect(200))
+				.then(() => expireRotation(device))
+				.then(() => getState(device, device.apiKey).expect(401)),
+		));
+
+	it('should revoke the old key once the new key is used', () =>
+		createDevice(app, user, application.id).then(device =>
+			rotate(device, device.apiKey)
+				.expect(200)
+				.then(({ body }) => getState(device, body.api_key).expect(200))
+				.then(() =>
+					Promise.all([
+						db.executeSql(
+							`
+SELECT 1
+FROM "device api key rotation"
+WHERE "device" = $1`,
+							[device.id],
+						),
+						db.executeSql(
+							`
+SELECT 1
+FROM "api key"
+WHERE "key" = $1`,
+							[device.apiKey],
+						),
+					]),
+				)
+				.then(([rotations, apiKeys]) => {
+					expect(rotations.rows).to.have.length(0);
+					expect(apiKeys.rows).to.have.length(0);
+				}),
+		));
+});
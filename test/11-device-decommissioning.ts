@@ -0,0 +1,70 @@
+import 'mocha';
+import { app } from '../init';
+import { expect } from 'chai';
+
+import { db } from '../src/platform';
+import {
+	createApplication,
+	createDevice,
+	createUser,
+	TestDevice,
+	TestUser,
+} from './test-lib/fixtures';
+import supertest = require('./test-lib/supertest');
+
+describe('Device decommissioning', () => {
+	let user: TestUser;
+	let device: TestDevice;
+
+	before(() =>
+		createUser()
+			.then(u => {
+				user = u;
+				return createApplication(app, user);
+			})
+			.then(application => createDevice(app, user, application.id))
+			.then(d => {
+				device = d;
+			}),
+	);
+
+	it('should revoke the api keys of the device and keep a tombstone', () =>
+		supertest(app, user)
+			.post(`/device/v2/${device.uuid}/decommission`)
+			.send({ reason: 'Returned' })
+			.expect(200)
+			.then(({ body }) => {
+				expect(body).to.have.property('uuid', device.uuid);
+				expect(body).to.have.property('device', device.id);
+				expect(body).to.have.property('decommissioned_by', user.id);
+				expect(body).to.have.property('reason', 'Returned');
+				expect(body).to.have.property('revoked_api_keys', 1);
+				return db.executeSql(
+					`
+SELECT 1
+FROM "api key"
+WHERE "key" = $1`,
+					[device.apiKey],
+				);
+			})
+			.then(({ rows }) => {
+				expect(rows).to.have.length(0);
+			}));
+
+	it('should tell the device it has been decommissioned', () =>
+		supertest(app, device.apiKey)
+			.get(`/device/v2/${device.uuid}/state`)
+			.expect(410)
+			.then(({ body }) => {
+				expect(body).to.have.property(
+					'message',
+					'Device has been decommissioned',
+				);
+				expect(body.decommissioned_at).to.be.a('number');
+			}));
+
+	it('should not decommission the device again', () =>
+		supertest(app, user)
+			.post(`/device/v2/${device.uuid}/decommission`)
+			.expect(404));
+});
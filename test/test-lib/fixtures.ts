@@ -0,0 +1,84 @@
+import * as Promise from 'bluebird';
+import * as crypto from 'crypto';
+import * as express from 'express';
+
+import { db } from '../../src/platform';
+import { createSessionToken, registerUser } from '../../src/platform/auth';
+
+import supertest = require('./supertest');
+
+// The `edge` device type is known without fetching the device types, so it is
+// used for all the applications and devices of the tests
+
+export interface TestUser {
+	id: number;
+	token: string;
+}
+
+export interface TestDevice {
+	id: number;
+	uuid: string;
+	apiKey: string;
+}
+
+const randomName = (prefix: string) =>
+	`${prefix}${crypto.randomBytes(4).toString('hex')}`;
+
+export const createUser = (): Promise<TestUser> => {
+	const username = randomName('test_');
+	return db
+		.transaction(tx =>
+			registerUser(
+				{
+					username,
+					email: `${username}@example.com`,
+					password: crypto.randomBytes(16).toString('hex'),
+				},
+				tx,
+			),
+		)
+		.then(user =>
+			createSessionToken(user.id).then(token => ({ id: user.id, token })),
+		);
+};
+
+export const createApplication = (
+	app: express.Express,
+	user: TestUser,
+	body: AnyObject = {},
+): Promise<AnyObject> =>
+	Promise.resolve(
+		supertest(app, user)
+			.post('/resin/application')
+			.send({
+				app_name: randomName('app'),
+				device_type: 'edge',
+				...body,
+			})
+			.expect(201),
+	).then(res => res.body);
+
+// Creates a device in the application, along with an api key for it
+export const createDevice = (
+	app: express.Express,
+	user: TestUser,
+	applicationId: number,
+	body: AnyObject = {},
+): Promise<TestDevice> =>
+	Promise.resolve(
+		supertest(app, user)
+			.post('/resin/device')
+			.send({
+				belongs_to__user: user.id,
+				belongs_to__application: applicationId,
+				device_type: 'edge',
+				...body,
+			})
+			.expect(201),
+	).then(({ body: device }) =>
+		Promise.resolve(
+			supertest(app, user)
+				.post(`/api-key/device/${device.id}/device-key`)
+				.expect(200),
+		).then(res => ({ id: device.id, uuid: device.uuid, apiKey: res.body })),
+	);